@@ -16,7 +16,8 @@ import {
   leerJSONSeguro, 
   guardarJSONSeguro, 
   emitirError,
-  resolverRutaAlmacenamiento
+  resolverRutaAlmacenamiento,
+  crearEventoBase
 } from './utils/helpers';
 
 // Definición del esquema para complementos usando Zod
@@ -65,11 +66,11 @@ export class CargadorComplementos {
       // Detectar complementos disponibles
       await this.detectarComplementos();
       
-      eventBus.emit('almacenamiento:complementosCargados', {
+      eventBus.emit('almacenamiento:complementosCargados', crearEventoBase('almacenamiento:complementosCargados', {
         cantidad: this.complementos.size,
         tipos: Array.from(this.complementos.keys()),
         timestamp: new Date().toISOString()
-      });
+      }));
       
       console.log(`[PizzePOS][Almacenamiento] ${this.complementos.size} complementos cargados`);
     } catch (error) {
@@ -356,11 +357,11 @@ export class CargadorComplementos {
       const resultadoValidacion = await this.validar(nombre, datos);
       
       if (!resultadoValidacion.valido) {
-        eventBus.emit('almacenamiento:archivoInvalido', {
+        eventBus.emit('almacenamiento:archivoInvalido', crearEventoBase('almacenamiento:archivoInvalido', {
           tipo: nombre,
           errores: resultadoValidacion.errores,
           timestamp: new Date().toISOString()
-        });
+        }));
         return false;
       }
       
@@ -372,11 +373,11 @@ export class CargadorComplementos {
       await guardarJSONSeguro(rutaDestino, datosProcesados);
       
       // Emitir evento de archivo guardado
-      eventBus.emit('almacenamiento:archivoPersistido', {
+      eventBus.emit('almacenamiento:archivoPersistido', crearEventoBase('almacenamiento:archivoPersistido', {
         tipo: nombre,
         ruta: complemento.destino,
         timestamp: new Date().toISOString()
-      });
+      }));
       
       return true;
     } catch (error) {
@@ -402,11 +403,11 @@ export class CargadorComplementos {
       const datos = await leerJSONSeguro(rutaDestino, null);
       
       if (datos) {
-        eventBus.emit('almacenamiento:archivoCargado', {
+        eventBus.emit('almacenamiento:archivoCargado', crearEventoBase('almacenamiento:archivoCargado', {
           tipo: nombre,
           ruta: complemento.destino,
           timestamp: new Date().toISOString()
-        });
+        }));
       }
       
       return datos;
@@ -0,0 +1,125 @@
+/**
+ * catalogoEventos.ts
+ * 
+ * Declara los eventos propios del módulo almacenamiento ("almacenamiento:*") junto con el esquema Zod de su payload.
+ */
+
+import { z } from 'zod';
+
+export const EventosAlmacenamiento = {
+  // Ciclo de vida
+  'almacenamiento:listo': z.object({
+    complementosCargados: z.array(z.string()),
+    archivosCargados: z.array(z.string())
+  }),
+  'almacenamiento:error': z.object({
+    mensaje: z.string(),
+    error: z.string(),
+    timestamp: z.string(),
+    componente: z.string(),
+    modulo: z.string().optional()
+  }),
+  'almacenamiento:directorioCreado': z.object({
+    ruta: z.string(),
+    timestamp: z.string()
+  }),
+  
+  // Complementos
+  'almacenamiento:complementosCargados': z.object({
+    cantidad: z.number().int(),
+    tipos: z.array(z.string()),
+    timestamp: z.string()
+  }),
+  'almacenamiento:complementoCargado': z.object({
+    tipo: z.string(),
+    timestamp: z.string(),
+    tamaño: z.number()
+  }),
+  'almacenamiento:panelInicializado': z.object({
+    cantidadComplementos: z.number().int(),
+    timestamp: z.string()
+  }),
+  
+  // Archivos
+  'almacenamiento:archivoSubido': z.object({
+    tipo: z.string().nullable(),
+    nombreArchivo: z.string(),
+    tamanio: z.number(),
+    timestamp: z.string()
+  }),
+  'almacenamiento:archivoLeido': z.object({
+    ruta: z.string(),
+    tamano: z.number(),
+    timestamp: z.string()
+  }),
+  'almacenamiento:archivoCargado': z.object({
+    tipo: z.string(),
+    ruta: z.string(),
+    timestamp: z.string()
+  }),
+  'almacenamiento:archivoGuardado': z.object({
+    ruta: z.string(),
+    tamano: z.number(),
+    timestamp: z.string()
+  }),
+  'almacenamiento:archivoPersistido': z.object({
+    tipo: z.string(),
+    ruta: z.string().optional(),
+    timestamp: z.string()
+  }),
+  'almacenamiento:archivoEliminado': z.object({
+    tipo: z.string().optional(),
+    ruta: z.string().optional(),
+    timestamp: z.string()
+  }),
+  
+  // Validación
+  'almacenamiento:archivoValidado': z.object({
+    tipo: z.string(),
+    valido: z.boolean(),
+    errores: z.array(z.string()).optional(),
+    timestamp: z.string()
+  }),
+  'almacenamiento:archivoInvalido': z.object({
+    tipo: z.string().optional(),
+    ruta: z.string().optional(),
+    errores: z.array(z.string()).optional(),
+    timestamp: z.string()
+  }),
+  'almacenamiento:errorValidacion': z.object({
+    tipo: z.string(),
+    mensaje: z.string(),
+    timestamp: z.string()
+  }),
+  'almacenamiento:validacionExitosa': z.object({
+    tipo: z.string(),
+    timestamp: z.string(),
+    tamaño: z.number(),
+    campos: z.array(z.string())
+  }),
+  'almacenamiento:validacionFallida': z.object({
+    tipo: z.string(),
+    timestamp: z.string(),
+    errores: z.array(z.string())
+  }),
+  
+  // Respaldos
+  'almacenamiento:backupRealizado': z.object({
+    rutaOriginal: z.string(),
+    rutaRespaldo: z.string(),
+    timestamp: z.string()
+  }),
+  'almacenamiento:respaldoCreado': z.object({
+    archivoOriginal: z.string(),
+    rutaRespaldo: z.string(),
+    timestamp: z.string()
+  }),
+  'almacenamiento:respaldoRestaurado': z.object({
+    rutaRespaldo: z.string(),
+    timestamp: z.string()
+  }),
+  'almacenamiento:respaldoEliminado': z.object({
+    rutaRespaldo: z.string(),
+    timestamp: z.string()
+  })
+};
@@ -8,7 +8,8 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { z } from 'zod';
-import { EventEmitter } from 'events';
+import { eventBus } from '../core/eventBus';
+import { crearEventoBase } from './utils/helpers';
 
 // Esquema de validación para un complemento de almacenamiento
 const ComplementoSchema = z.object({
@@ -24,9 +25,6 @@ const ComplementoSchema = z.object({
 // Tipo derivado del esquema
 type Complemento = z.infer<typeof ComplementoSchema>;
 
-// EventBus global o local según la configuración del sistema
-const eventBus = global.eventBus || new EventEmitter();
-
 // Rutas base para archivos y plantillas
 const RUTA_BASE = process.env.NODE_ENV === 'production' 
   ? path.join(process.cwd(), 'datos', 'almacenamiento')
@@ -71,10 +69,10 @@ export async function iniciarAlmacenamiento(): Promise<void> {
     estado.inicializado = true;
     
     // Emitir evento de sistema listo
-    eventBus.emit('almacenamiento:listo', {
+    eventBus.emit('almacenamiento:listo', crearEventoBase('almacenamiento:listo', {
       complementosCargados: Array.from(estado.complementos.keys()),
       archivosCargados: Array.from(estado.archivos.keys())
-    });
+    }));
     
     console.log(`Sistema de almacenamiento iniciado con ${estado.complementos.size} complementos`);
     
@@ -290,11 +288,11 @@ export async function guardarArchivo(tipo: string, datos: any): Promise<boolean>
     estado.archivos.set(tipo, datos);
     
     // Emitir evento de persistencia
-    eventBus.emit('almacenamiento:archivoPersistido', {
+    eventBus.emit('almacenamiento:archivoPersistido', crearEventoBase('almacenamiento:archivoPersistido', {
       tipo,
       ruta: rutaArchivo,
       timestamp: new Date().toISOString()
-    });
+    }));
     
     return true;
   } catch (error) {
@@ -361,10 +359,10 @@ export async function eliminarArchivo(tipo: string): Promise<boolean> {
     estado.archivos.delete(tipo);
     
     // Emitir evento de eliminación
-    eventBus.emit('almacenamiento:archivoEliminado', {
+    eventBus.emit('almacenamiento:archivoEliminado', crearEventoBase('almacenamiento:archivoEliminado', {
       tipo,
       timestamp: new Date().toISOString()
-    });
+    }));
     
     return true;
   } catch (error) {
@@ -415,11 +413,11 @@ export function tieneArchivoCargado(tipo: string): boolean {
  * @param datos Datos cargados
  */
 function emitirEventoComplementoCargado(tipo: string, datos: any): void {
-  eventBus.emit('almacenamiento:complementoCargado', {
+  eventBus.emit('almacenamiento:complementoCargado', crearEventoBase('almacenamiento:complementoCargado', {
     tipo,
     timestamp: new Date().toISOString(),
     tamaño: JSON.stringify(datos).length
-  });
+  }));
 }
 
 /**
@@ -428,11 +426,11 @@ function emitirEventoComplementoCargado(tipo: string, datos: any): void {
  * @param mensaje Mensaje de error
  */
 function emitirEventoErrorValidacion(tipo: string, mensaje: string): void {
-  eventBus.emit('almacenamiento:errorValidacion', {
+  eventBus.emit('almacenamiento:errorValidacion', crearEventoBase('almacenamiento:errorValidacion', {
     tipo,
     mensaje,
     timestamp: new Date().toISOString()
-  });
+  }));
 }
 
 /**
@@ -448,8 +446,8 @@ function emitirError(mensaje: string, error: unknown): void {
     componente: 'almacenamiento'
   };
   
-  eventBus.emit('almacenamiento:error', errorObj);
-  eventBus.emit('core:errorDetectado', errorObj);
+  eventBus.emit('almacenamiento:error', crearEventoBase('almacenamiento:error', errorObj, 9));
+  eventBus.emit('core:errorDetectado', crearEventoBase('core:errorDetectado', errorObj, 9));
 }
 
 // Exportar funciones públicas
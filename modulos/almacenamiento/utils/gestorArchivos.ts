@@ -8,10 +8,8 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { z } from 'zod';
-import { EventEmitter } from 'events';
-
-// EventBus global o local según la configuración del sistema
-const eventBus = global.eventBus || new EventEmitter();
+import { eventBus } from '../../core/eventBus';
+import { crearEventoBase } from './helpers';
 
 // Directorio base para archivos de datos
 const DIRECTORIO_BASE = process.env.NODE_ENV === 'production' 
@@ -76,6 +74,32 @@ export async function guardarArchivo(ruta: string, contenido: string): Promise<b
   }
 }
 
+/**
+ * Añade una línea al final de un archivo, creándolo si no existe.
+ * Pensado para registros de solo anexado (JSON Lines): no hace respaldo ni emite evento por línea.
+ * @param ruta Ruta al archivo (relativa o absoluta)
+ * @param linea Contenido de la línea, sin salto de línea final
+ * @returns Promise<boolean> indicando éxito o fallo
+ */
+export async function agregarLinea(ruta: string, linea: string): Promise<boolean> {
+  try {
+    // Resolver ruta completa
+    const rutaCompleta = esRutaAbsoluta(ruta) ? ruta : path.join(DIRECTORIO_BASE, ruta);
+    
+    // Asegurar que el directorio existe
+    await crearDirectorioSiNoExiste(path.dirname(rutaCompleta));
+    
+    // Anexar la línea
+    await fs.appendFile(rutaCompleta, `${linea}\n`, 'utf8');
+    
+    return true;
+  } catch (error) {
+    console.error(`Error al agregar línea en ${ruta}:`, error);
+    emitirEventoError(`Error al agregar línea en ${ruta}`, error);
+    return false;
+  }
+}
+
 /**
  * Guarda un objeto como JSON en el sistema de archivos
  * @param ruta Ruta donde guardar el archivo (relativa o absoluta)
@@ -317,11 +341,11 @@ function esRutaAbsoluta(ruta: string): boolean {
  * @param tamano Tamaño en bytes
  */
 function emitirEventoArchivoLeido(ruta: string, tamano: number): void {
-  eventBus.emit('almacenamiento:archivoLeido', {
+  eventBus.emit('almacenamiento:archivoLeido', crearEventoBase('almacenamiento:archivoLeido', {
     ruta: path.basename(ruta),
     tamano,
     timestamp: new Date().toISOString()
-  });
+  }));
 }
 
 /**
@@ -330,11 +354,11 @@ function emitirEventoArchivoLeido(ruta: string, tamano: number): void {
  * @param tamano Tamaño en bytes
  */
 function emitirEventoArchivoGuardado(ruta: string, tamano: number): void {
-  eventBus.emit('almacenamiento:archivoGuardado', {
+  eventBus.emit('almacenamiento:archivoGuardado', crearEventoBase('almacenamiento:archivoGuardado', {
     ruta: path.basename(ruta),
     tamano,
     timestamp: new Date().toISOString()
-  });
+  }));
 }
 
 /**
@@ -342,10 +366,10 @@ function emitirEventoArchivoGuardado(ruta: string, tamano: number): void {
  * @param ruta Ruta del archivo
  */
 function emitirEventoArchivoEliminado(ruta: string): void {
-  eventBus.emit('almacenamiento:archivoEliminado', {
+  eventBus.emit('almacenamiento:archivoEliminado', crearEventoBase('almacenamiento:archivoEliminado', {
     ruta: path.basename(ruta),
     timestamp: new Date().toISOString()
-  });
+  }));
 }
 
 /**
@@ -354,11 +378,11 @@ function emitirEventoArchivoEliminado(ruta: string): void {
  * @param errores Lista de errores encontrados
  */
 function emitirEventoArchivoInvalido(ruta: string, errores: string[]): void {
-  eventBus.emit('almacenamiento:archivoInvalido', {
+  eventBus.emit('almacenamiento:archivoInvalido', crearEventoBase('almacenamiento:archivoInvalido', {
     ruta: path.basename(ruta),
     errores,
     timestamp: new Date().toISOString()
-  });
+  }));
 }
 
 /**
@@ -367,11 +391,11 @@ function emitirEventoArchivoInvalido(ruta: string, errores: string[]): void {
  * @param rutaRespaldo Ruta del archivo de respaldo
  */
 function emitirEventoBackupRealizado(rutaOriginal: string, rutaRespaldo: string): void {
-  eventBus.emit('almacenamiento:backupRealizado', {
+  eventBus.emit('almacenamiento:backupRealizado', crearEventoBase('almacenamiento:backupRealizado', {
     rutaOriginal: path.basename(rutaOriginal),
     rutaRespaldo: path.basename(rutaRespaldo),
     timestamp: new Date().toISOString()
-  });
+  }));
 }
 
 /**
@@ -387,14 +411,15 @@ function emitirEventoError(mensaje: string, error: unknown): void {
     componente: 'gestorArchivos'
   };
   
-  eventBus.emit('almacenamiento:error', errorObj);
-  eventBus.emit('core:errorDetectado', errorObj);
+  eventBus.emit('almacenamiento:error', crearEventoBase('almacenamiento:error', errorObj, 9));
+  eventBus.emit('core:errorDetectado', crearEventoBase('core:errorDetectado', errorObj, 9));
 }
 
 // Exportar todas las funciones públicas
 export default {
   leerArchivo,
   guardarArchivo,
+  agregarLinea,
   leerJSON,
   guardarJSON,
   validarArchivo,
@@ -8,10 +8,9 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import crypto from 'crypto';
-import { EventEmitter } from 'events';
-
-// EventBus global o local según la configuración del sistema
-const eventBus = global.eventBus || new EventEmitter();
+import { eventBus } from '../../core/eventBus';
+import { versionActual } from '../../core/versionesEventos';
+import type { TipoEvento, PayloadDe, EventoDe } from '../../core/catalogoEventos';
 
 // Directorio base para archivos de datos
 const DIRECTORIO_BASE = process.env.NODE_ENV === 'production' 
@@ -167,6 +166,30 @@ export function generarUUID(): string {
   return crypto.randomUUID();
 }
 
+/**
+ * Crea un evento con la estructura estándar del sistema, con origen 'almacenamiento'
+ * @param tipo Tipo del evento registrado en el catálogo (ej: "almacenamiento:archivoPersistido")
+ * @param payload Datos específicos del evento, según el esquema del catálogo
+ * @param prioridad Nivel de prioridad del evento (default: 5)
+ * @returns Objeto Evento listo para emitir en el bus
+ */
+export function crearEventoBase<K extends TipoEvento>(tipo: K, payload: PayloadDe<K>, prioridad: number = 5): EventoDe<K> {
+  return {
+    meta: {
+      id: generarUUID(),
+      timestamp: obtenerFechaHoraActual(),
+      tipo,
+      origen: 'almacenamiento',
+      prioridad,
+      versionEsquema: versionActual(tipo)
+    },
+    payload,
+    contexto: {
+      dispositivoId: 'almacenamiento'
+    }
+  };
+}
+
 /**
  * Verifica si dos objetos JSON son idénticos
  * @param obj1 Primer objeto
@@ -258,8 +281,8 @@ export function emitirError(mensaje: string, error: unknown): void {
     modulo: 'almacenamiento'
   };
   
-  eventBus.emit('almacenamiento:error', errorObj);
-  eventBus.emit('core:errorDetectado', errorObj);
+  eventBus.emit('almacenamiento:error', crearEventoBase('almacenamiento:error', errorObj, 9));
+  eventBus.emit('core:errorDetectado', crearEventoBase('core:errorDetectado', errorObj, 9));
 }
 
 /**
@@ -267,10 +290,10 @@ export function emitirError(mensaje: string, error: unknown): void {
  * @param ruta Ruta del directorio creado
  */
 function emitirEventoDirectorioCreado(ruta: string): void {
-  eventBus.emit('almacenamiento:directorioCreado', {
+  eventBus.emit('almacenamiento:directorioCreado', crearEventoBase('almacenamiento:directorioCreado', {
     ruta: path.relative(DIRECTORIO_BASE, ruta),
     timestamp: new Date().toISOString()
-  });
+  }));
 }
 
 /**
@@ -7,10 +7,8 @@
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import { EventEmitter } from 'events';
-
-// EventBus global o local según la configuración del sistema
-const eventBus = global.eventBus || new EventEmitter();
+import { eventBus } from '../../core/eventBus';
+import { crearEventoBase } from './helpers';
 
 // Directorio base para respaldos
 const DIRECTORIO_BASE = process.env.NODE_ENV === 'production' 
@@ -260,11 +258,11 @@ async function crearDirectorioSiNoExiste(ruta: string): Promise<void> {
  * @param rutaRespaldo Ruta al archivo de respaldo
  */
 function emitirEventoRespaldoCreado(archivoOriginal: string, rutaRespaldo: string): void {
-  eventBus.emit('almacenamiento:respaldoCreado', {
+  eventBus.emit('almacenamiento:respaldoCreado', crearEventoBase('almacenamiento:respaldoCreado', {
     archivoOriginal: path.basename(archivoOriginal),
     rutaRespaldo: path.relative(DIRECTORIO_BASE, rutaRespaldo),
     timestamp: new Date().toISOString()
-  });
+  }));
 }
 
 /**
@@ -272,10 +270,10 @@ function emitirEventoRespaldoCreado(archivoOriginal: string, rutaRespaldo: strin
  * @param ruta Ruta al archivo de respaldo
  */
 function emitirEventoRespaldoRestaurado(ruta: string): void {
-  eventBus.emit('almacenamiento:respaldoRestaurado', {
+  eventBus.emit('almacenamiento:respaldoRestaurado', crearEventoBase('almacenamiento:respaldoRestaurado', {
     rutaRespaldo: ruta,
     timestamp: new Date().toISOString()
-  });
+  }));
 }
 
 /**
@@ -283,10 +281,10 @@ function emitirEventoRespaldoRestaurado(ruta: string): void {
  * @param ruta Ruta al archivo de respaldo
  */
 function emitirEventoRespaldoEliminado(ruta: string): void {
-  eventBus.emit('almacenamiento:respaldoEliminado', {
+  eventBus.emit('almacenamiento:respaldoEliminado', crearEventoBase('almacenamiento:respaldoEliminado', {
     rutaRespaldo: ruta,
     timestamp: new Date().toISOString()
-  });
+  }));
 }
 
 /**
@@ -302,8 +300,8 @@ function emitirEventoError(mensaje: string, error: unknown): void {
     componente: 'respaldo'
   };
   
-  eventBus.emit('almacenamiento:error', errorObj);
-  eventBus.emit('core:errorDetectado', errorObj);
+  eventBus.emit('almacenamiento:error', crearEventoBase('almacenamiento:error', errorObj, 9));
+  eventBus.emit('core:errorDetectado', crearEventoBase('core:errorDetectado', errorObj, 9));
 }
 
 // Exportar funciones públicas
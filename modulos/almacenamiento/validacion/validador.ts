@@ -8,10 +8,8 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { z } from 'zod';
-import { EventEmitter } from 'events';
-
-// EventBus global o local según la configuración del sistema
-const eventBus = global.eventBus || new EventEmitter();
+import { eventBus } from '../../core/eventBus';
+import { crearEventoBase } from '../utils/helpers';
 
 // Ruta base para las plantillas de validación
 const RUTA_PLANTILLAS = process.env.NODE_ENV === 'production' 
@@ -197,12 +195,12 @@ function procesarErroresZod(error: z.ZodError): string[] {
  * @param datos Datos validados
  */
 function emitirEventoValidacionExitosa(tipo: string, datos: any): void {
-  eventBus.emit('almacenamiento:validacionExitosa', {
+  eventBus.emit('almacenamiento:validacionExitosa', crearEventoBase('almacenamiento:validacionExitosa', {
     tipo,
     timestamp: new Date().toISOString(),
     tamaño: JSON.stringify(datos).length,
     campos: Object.keys(datos)
-  });
+  }));
 }
 
 /**
@@ -211,11 +209,11 @@ function emitirEventoValidacionExitosa(tipo: string, datos: any): void {
  * @param errores Lista de errores encontrados
  */
 function emitirEventoValidacionFallida(tipo: string, errores: string[]): void {
-  eventBus.emit('almacenamiento:validacionFallida', {
+  eventBus.emit('almacenamiento:validacionFallida', crearEventoBase('almacenamiento:validacionFallida', {
     tipo,
     timestamp: new Date().toISOString(),
     errores
-  });
+  }));
 }
 
 /**
@@ -231,8 +229,8 @@ function emitirEventoError(mensaje: string, error: unknown): void {
     componente: 'validador'
   };
   
-  eventBus.emit('almacenamiento:error', errorObj);
-  eventBus.emit('core:errorDetectado', errorObj);
+  eventBus.emit('almacenamiento:error', crearEventoBase('almacenamiento:error', errorObj, 9));
+  eventBus.emit('core:errorDetectado', crearEventoBase('core:errorDetectado', errorObj, 9));
 }
 
 /**
@@ -8,7 +8,7 @@
 
 import { cargadorComplementos, TipoComplemento } from '../cargador';
 import { eventBus } from '../../core/eventBus';
-import { leerJSONSeguro } from '../utils/helpers';
+import { leerJSONSeguro, crearEventoBase } from '../utils/helpers';
 import { PanelComplementosUI } from './panelComplementosUI';
 
 // Interfaces
@@ -108,10 +108,10 @@ export class PanelComplementos {
       this.configurarEventos();
       
       // Emitir evento de panel inicializado
-      eventBus.emit('almacenamiento:panelInicializado', {
+      eventBus.emit('almacenamiento:panelInicializado', crearEventoBase('almacenamiento:panelInicializado', {
         cantidadComplementos: this.estado.complementos.length,
         timestamp: new Date().toISOString()
-      });
+      }));
       
       // Mostrar mensaje inicial
       this.mostrarMensaje('Panel de complementos inicializado correctamente', 'info');
@@ -227,12 +227,12 @@ export class PanelComplementos {
     this.mostrarMensaje(`Archivo "${archivo.name}" seleccionado`, 'info');
     
     // Emitir evento
-    eventBus.emit('almacenamiento:archivoSubido', {
+    eventBus.emit('almacenamiento:archivoSubido', crearEventoBase('almacenamiento:archivoSubido', {
       tipo: this.estado.complementoActivo,
       nombreArchivo: archivo.name,
       tamanio: archivo.size,
       timestamp: new Date().toISOString()
-    });
+    }));
   }
 
   /**
@@ -260,12 +260,12 @@ export class PanelComplementos {
       );
       
       // Emitir evento de validación
-      eventBus.emit('almacenamiento:archivoValidado', {
+      eventBus.emit('almacenamiento:archivoValidado', crearEventoBase('almacenamiento:archivoValidado', {
         tipo: this.estado.complementoActivo,
         valido: resultadoValidacion.valido,
         errores: resultadoValidacion.errores,
         timestamp: new Date().toISOString()
-      });
+      }));
       
       if (resultadoValidacion.valido) {
         // Datos válidos, guardar
@@ -285,10 +285,10 @@ export class PanelComplementos {
           this.estado.datosActuales = datos;
           
           // Emitir evento de archivo persistido
-          eventBus.emit('almacenamiento:archivoPersistido', {
+          eventBus.emit('almacenamiento:archivoPersistido', crearEventoBase('almacenamiento:archivoPersistido', {
             tipo: this.estado.complementoActivo,
             timestamp: new Date().toISOString()
-          });
+          }));
         } else {
           this.mostrarMensaje('Error al guardar el archivo', 'error');
         }
@@ -300,24 +300,24 @@ export class PanelComplementos {
         this.mostrarMensaje('El archivo no cumple con la estructura esperada', 'error');
         
         // Emitir evento de archivo inválido
-        eventBus.emit('almacenamiento:archivoInvalido', {
+        eventBus.emit('almacenamiento:archivoInvalido', crearEventoBase('almacenamiento:archivoInvalido', {
           tipo: this.estado.complementoActivo,
           errores: this.estado.erroresValidacion,
           timestamp: new Date().toISOString()
-        });
+        }));
       }
     } catch (error) {
       console.error('Error al procesar archivo:', error);
       this.mostrarMensaje('Error al procesar el archivo: ' + String(error), 'error');
       
       // Emitir evento de error
-      eventBus.emit('core:errorDetectado', {
+      eventBus.emit('core:errorDetectado', crearEventoBase('core:errorDetectado', {
         modulo: 'almacenamiento',
         componente: 'panelComplementos',
         mensaje: 'Error al procesar archivo',
         error: String(error),
         timestamp: new Date().toISOString()
-      });
+      }, 9));
     } finally {
       this.estado.cargando = false;
       this.ui.renderizarUI(this.estado);
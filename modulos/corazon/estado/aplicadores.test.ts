@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { registrarAplicadoresDelSistema, MAX_ERRORES_RECIENTES } from './aplicadores';
+import { aplicarEventoAEstado, getEstado, resetEstado } from './estado';
+import { iniciarDiario, registrarEnDiario, reproducirDiario } from '../eventos/diarioEventos';
+import { crearEventoBase } from '../utils/helpers';
+import type { Evento } from '../eventos/broker';
+
+let directorio: string;
+
+// Aplica un evento como lo hace el broker al aceptarlo: estado en vivo y diario
+function aceptar(evento: Evento): void {
+  aplicarEventoAEstado(evento);
+  registrarEnDiario(evento);
+}
+
+function errorDeDispositivo(mensaje: string): Evento {
+  return crearEventoBase('core:errorDetectado', { mensaje, componente: 'impresora', tipoError: 'hardware' }, 'terminal', 7, 'terminal-01');
+}
+
+describe('aplicadores del corazon', () => {
+  beforeAll(async () => {
+    registrarAplicadoresDelSistema();
+    directorio = await mkdtemp(path.join(tmpdir(), 'aplicadores-'));
+  });
+
+  beforeEach(async () => {
+    await rm(directorio, { recursive: true, force: true });
+    await iniciarDiario({ directorio, reproducirAlIniciar: false });
+    resetEstado();
+  });
+
+  afterAll(async () => {
+    resetEstado();
+    await rm(directorio, { recursive: true, force: true });
+  });
+
+  it('la reproducción del diario en un estado vacío da el mismo estado que en vivo', async () => {
+    aceptar(errorDeDispositivo('Sin papel'));
+    aceptar(crearEventoBase('core:modoOffline', { motivo: 'Sin red' }, 'terminal', 5, 'terminal-01'));
+    aceptar(errorDeDispositivo('Tapa abierta'));
+    const enVivo = structuredClone(getEstado());
+
+    resetEstado();
+    expect(getEstado().errores).toEqual([]);
+    expect(getEstado().sistema.online).toBe(true);
+
+    await reproducirDiario();
+
+    expect(getEstado()).toEqual(enVivo);
+    expect(enVivo.sistema.online).toBe(false);
+    expect(enVivo.errores.map((error: { mensaje: string }) => error.mensaje)).toEqual(['Sin papel', 'Tapa abierta']);
+  });
+
+  it('un reinicio en el diario descarta lo anterior', async () => {
+    aceptar(errorDeDispositivo('Sin papel'));
+    aceptar(crearEventoBase('core:reiniciarSistema', { motivo: 'Manual' }, 'terminal', 9, 'terminal-01'));
+    aceptar(errorDeDispositivo('Tapa abierta'));
+
+    await reproducirDiario();
+
+    expect(getEstado().errores).toEqual([
+      expect.objectContaining({ mensaje: 'Tapa abierta', dispositivoId: 'terminal-01' })
+    ]);
+  });
+
+  it('conserva solo los últimos errores', () => {
+    for (let i = 0; i < MAX_ERRORES_RECIENTES + 5; i++) {
+      aplicarEventoAEstado(errorDeDispositivo(`Error ${i}`));
+    }
+
+    const errores = getEstado().errores;
+    expect(errores).toHaveLength(MAX_ERRORES_RECIENTES);
+    expect(errores[0].mensaje).toBe('Error 5');
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * aplicadores.ts
+ *
+ * Aplicadores de estado de los eventos del corazon. Son los únicos cambios de estado que
+ * se reconstruyen al reproducir el diario, porque el diario solo guarda lo que aceptó el broker
+ * (eventos de dispositivos):
+ * - `sistema.online`, con `core:modoOffline`.
+ * - `errores`, con `core:errorDetectado` (los últimos MAX_ERRORES_RECIENTES).
+ * - `core:reiniciarSistema` vacía el estado, así que lo anterior a un reinicio deja de contar.
+ * No se reconstruye:
+ * - `dispositivos`, porque la presencia la emite el microservidor y se vuelve a poblar cuando los dispositivos reconectan.
+ * - `modulos`, porque lo fija la carga de módulos.
+ * - El registro de dispositivos, porque se guarda en su propio archivo.
+ * El resto de eventos del corazon que emite un dispositivo (`core:ping`, `core:logGenerado`) no modifica el estado.
+ * Los módulos con estado propio (p. ej. pedidos) registran sus aplicadores con registrarAplicadorEstado.
+ */
+
+import { registrarAplicadorEstado, resetEstado, setEstadoPorClave, getEstadoPorClave } from './estado';
+
+// Errores reportados por los dispositivos que se conservan en el estado (`errores`)
+export const MAX_ERRORES_RECIENTES = 50;
+
+/**
+ * Registra los aplicadores de estado de los eventos del corazon
+ */
+export function registrarAplicadoresDelSistema(): void {
+  // Aplicar el modo offline al estado (también al reproducir el diario)
+  registrarAplicadorEstado('core:modoOffline', () => {
+    console.log('Cambiando a modo offline');
+    setEstadoPorClave('sistema.online', false, 'core');
+  });
+
+  // Un reinicio vacía el estado: al reproducir el diario, lo anterior al reinicio deja de contar
+  registrarAplicadorEstado('core:reiniciarSistema', () => {
+    resetEstado();
+  });
+
+  // Conservar los últimos errores reportados por los dispositivos (con la fecha del evento, para que la reproducción dé lo mismo)
+  registrarAplicadorEstado('core:errorDetectado', (evento) => {
+    const { mensaje, componente, tipoError } = evento.payload;
+    const errores = getEstadoPorClave('errores') ?? [];
+
+    setEstadoPorClave('errores', [
+      ...errores,
+      { mensaje, componente, tipoError, dispositivoId: evento.contexto.dispositivoId, fecha: evento.meta.timestamp }
+    ].slice(-MAX_ERRORES_RECIENTES), 'core');
+  });
+}
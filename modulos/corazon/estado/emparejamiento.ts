@@ -0,0 +1,209 @@
+/**
+ * emparejamiento.ts
+ *
+ * Alta de dispositivos nuevos sin editar dispositivos.json a mano.
+ * Un administrador abre una ventana de emparejamiento de N minutos con `core:habilitarEmparejamiento`
+ * y recibe un código numérico corto. Mientras la ventana está abierta, un dispositivo nuevo se conecta
+ * al microservidor presentando ese código; el corazon le genera una llave, lo da de alta en el registro
+ * y anuncia el alta con `core:dispositivoRegistrado`.
+ * Demasiados códigos incorrectos cierran la ventana antes de tiempo.
+ */
+
+import { z } from 'zod';
+import { randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { EventBus, crearEventoBase } from '../utils/helpers';
+import { responder } from '../../core/solicitudes';
+import { agregarDispositivo, getDispositivoPorId } from './registroDispositivos';
+import type { EventoDe } from '../../core/catalogoEventos';
+
+// Esquema de configuración (clave "emparejamiento" en pizzepos.config.json)
+export const ConfigEmparejamientoSchema = z.object({
+  duracionMaximaMinutos: z.number().int().positive().default(60),
+  digitosCodigo: z.number().int().min(4).max(10).default(6),
+  maxIntentosFallidos: z.number().int().positive().default(5),
+  // Rol de los dispositivos emparejados cuando el administrador no indica otro
+  rolPredeterminado: z.string().default('operador')
+});
+
+export type ConfigEmparejamiento = z.infer<typeof ConfigEmparejamientoSchema>;
+
+/**
+ * Ventana de emparejamiento abierta
+ */
+export interface VentanaEmparejamiento {
+  codigo: string;
+  rol: string;
+  habilitadoPor: string;
+  expiraEn: string;
+}
+
+// Ventana activa junto con su temporizador de cierre y los intentos fallidos
+interface EstadoVentana {
+  ventana: VentanaEmparejamiento;
+  intentosFallidos: number;
+  temporizador: NodeJS.Timeout;
+}
+
+// Configuración activa
+let configuracion: ConfigEmparejamiento = ConfigEmparejamientoSchema.parse({});
+
+// Solo puede haber una ventana abierta a la vez
+let activa: EstadoVentana | null = null;
+
+/**
+ * Aplica la configuración y atiende las solicitudes de emparejamiento
+ * @param opciones Configuración parcial (los valores ausentes toman su valor por defecto)
+ */
+export function iniciarEmparejamiento(opciones: unknown = {}): void {
+  configuracion = ConfigEmparejamientoSchema.parse(opciones ?? {});
+
+  EventBus.off('core:habilitarEmparejamiento', alHabilitar);
+  EventBus.on('core:habilitarEmparejamiento', alHabilitar);
+  EventBus.off('core:solicitarEmparejamiento', alSolicitar);
+  EventBus.on('core:solicitarEmparejamiento', alSolicitar);
+}
+
+/**
+ * Abre una ventana de emparejamiento con un código nuevo, reemplazando la que hubiera abierta
+ * @param duracionMinutos Duración de la ventana (limitada por `duracionMaximaMinutos`)
+ * @param rol Rol que recibirán los dispositivos emparejados
+ * @param habilitadoPor ID del dispositivo que abrió la ventana
+ * @returns La ventana abierta, con el código que deben presentar los dispositivos
+ */
+export function habilitarEmparejamiento(
+  duracionMinutos: number,
+  rol: string = configuracion.rolPredeterminado,
+  habilitadoPor: string = 'corazon'
+): VentanaEmparejamiento {
+  cerrarEmparejamiento();
+
+  const duracionMs = Math.min(duracionMinutos, configuracion.duracionMaximaMinutos) * 60000;
+  const codigo = randomInt(0, 10 ** configuracion.digitosCodigo).toString().padStart(configuracion.digitosCodigo, '0');
+  const ventana: VentanaEmparejamiento = {
+    codigo,
+    rol,
+    habilitadoPor,
+    expiraEn: new Date(Date.now() + duracionMs).toISOString()
+  };
+
+  const temporizador = setTimeout(() => cerrarEmparejamiento('Ventana de emparejamiento expirada'), duracionMs);
+  temporizador.unref();
+
+  activa = { ventana, intentosFallidos: 0, temporizador };
+  console.log(`Emparejamiento habilitado por ${habilitadoPor} hasta ${ventana.expiraEn}`);
+
+  return { ...ventana };
+}
+
+/**
+ * Cierra la ventana de emparejamiento, si hay una abierta
+ * @param motivo Razón del cierre, para el registro
+ */
+export function cerrarEmparejamiento(motivo: string = 'Cerrada manualmente'): void {
+  if (!activa) {
+    return;
+  }
+
+  clearTimeout(activa.temporizador);
+  activa = null;
+  console.log(`Emparejamiento cerrado: ${motivo}`);
+}
+
+/**
+ * Devuelve la ventana abierta, o null si no hay ninguna
+ */
+export function obtenerVentanaEmparejamiento(): VentanaEmparejamiento | null {
+  return activa ? { ...activa.ventana } : null;
+}
+
+/**
+ * Atiende la solicitud de un administrador para abrir una ventana
+ */
+function alHabilitar(evento: EventoDe<'core:habilitarEmparejamiento'>): void {
+  const { codigo, rol, expiraEn } = habilitarEmparejamiento(
+    evento.payload.duracionMinutos,
+    evento.payload.rol,
+    evento.contexto.dispositivoId
+  );
+
+  responder(evento, 'core:emparejamientoHabilitado', { codigo, rol, expiraEn });
+}
+
+/**
+ * Atiende el intento de emparejamiento de un dispositivo nuevo que llega por el microservidor
+ */
+async function alSolicitar(evento: EventoDe<'core:solicitarEmparejamiento'>): Promise<void> {
+  const { conexionId, dispositivoId, codigo } = evento.payload;
+  const rechazo = validarIntento(dispositivoId, codigo);
+
+  if (rechazo || !activa) {
+    emitirEventoResuelto(conexionId, dispositivoId, { aceptado: false, motivo: rechazo ?? 'No hay emparejamiento habilitado' });
+    return;
+  }
+
+  const { rol, habilitadoPor } = activa.ventana;
+  const llave = randomBytes(32).toString('hex');
+
+  try {
+    await agregarDispositivo({ id: dispositivoId, llave, activo: true, rol });
+  } catch (error) {
+    emitirEventoResuelto(conexionId, dispositivoId, {
+      aceptado: false,
+      motivo: error instanceof Error ? error.message : 'No se pudo registrar el dispositivo'
+    });
+    return;
+  }
+
+  EventBus.emit('core:dispositivoRegistrado', crearEventoBase('core:dispositivoRegistrado', {
+    dispositivoId,
+    rol,
+    habilitadoPor,
+    fecha: new Date().toISOString()
+  }, 'corazon', 7));
+
+  emitirEventoResuelto(conexionId, dispositivoId, { aceptado: true, llave });
+}
+
+/**
+ * Comprueba un intento de emparejamiento y cuenta los códigos incorrectos
+ * @returns Motivo del rechazo, o null si el intento es válido
+ */
+function validarIntento(dispositivoId: string, codigo: string): string | null {
+  if (!activa) {
+    return 'No hay emparejamiento habilitado';
+  }
+
+  const esperado = Buffer.from(activa.ventana.codigo);
+  const recibido = Buffer.from(codigo);
+
+  if (esperado.length !== recibido.length || !timingSafeEqual(esperado, recibido)) {
+    activa.intentosFallidos++;
+
+    if (activa.intentosFallidos >= configuracion.maxIntentosFallidos) {
+      cerrarEmparejamiento('Demasiados códigos incorrectos');
+    }
+
+    return 'Código de emparejamiento incorrecto';
+  }
+
+  if (getDispositivoPorId(dispositivoId)) {
+    return `Ya existe un dispositivo con ID ${dispositivoId}`;
+  }
+
+  return null;
+}
+
+/**
+ * Comunica al microservidor el resultado de un intento de emparejamiento
+ */
+function emitirEventoResuelto(
+  conexionId: string,
+  dispositivoId: string,
+  resultado: { aceptado: boolean; llave?: string; motivo?: string }
+): void {
+  EventBus.emit('core:emparejamientoResuelto', crearEventoBase('core:emparejamientoResuelto', {
+    conexionId,
+    dispositivoId,
+    ...resultado
+  }, 'corazon', 8));
+}
@@ -2,12 +2,15 @@
  * estado.ts
  * 
  * Almacena en memoria información compartida entre módulos: 
- * modo online/offline, configuración, módulos activos, sincronización, errores recientes.
- * No tiene persistencia, solo guarda estado en memoria durante la ejecución.
+ * modo online/offline, configuración, módulos activos, sincronización, errores recientes
+ * y presencia de los dispositivos (reflejada desde el microservidor en `dispositivos.<id>`).
+ * No escribe a disco: el estado se reconstruye reaplicando eventos del diario (ver eventos/diarioEventos.ts)
+ * mediante los aplicadores registrados por tipo de evento.
  */
 
 import { z } from 'zod';
 import { EventBus } from '../utils/helpers';
+import type { Evento } from '../eventos/broker';
 
 // Esquema de validación para la estructura mínima del estado
 const EstadoBaseSchema = z.object({
@@ -19,12 +22,22 @@ const EstadoBaseSchema = z.object({
     activo: z.boolean().optional(),
     cargado: z.boolean().optional()
   })).default({}),
-  errores: z.array(z.any()).default([])
+  errores: z.array(z.any()).default([]),
+  dispositivos: z.record(z.any()).default({})
 });
 
 // Tipo de estado derivado del esquema Zod
 type EstadoBase = z.infer<typeof EstadoBaseSchema>;
 
+/**
+ * Función que traduce un evento aceptado en cambios de estado (vía setEstadoPorClave).
+ * Debe depender solo del evento y del estado actual, para que reproducir el diario dé el mismo resultado.
+ */
+export type AplicadorEstado = (evento: Evento) => void;
+
+// Aplicadores registrados por tipo de evento
+const aplicadores = new Map<string, AplicadorEstado>();
+
 // Estado global en memoria
 let estadoGlobal: EstadoBase = {
   sistema: {
@@ -32,7 +45,8 @@ let estadoGlobal: EstadoBase = {
     ultimaSincronizacion: 0
   },
   modulos: {},
-  errores: []
+  errores: [],
+  dispositivos: {}
 };
 
 /**
@@ -147,6 +161,37 @@ export function resetEstado(): void {
   }
 }
 
+/**
+ * Registra el aplicador de estado para un tipo de evento. Si ya había uno, lo reemplaza.
+ * @param tipo Tipo de evento (ej: "core:modoOffline")
+ * @param aplicador Función que aplica el evento sobre el estado
+ */
+export function registrarAplicadorEstado(tipo: string, aplicador: AplicadorEstado): void {
+  aplicadores.set(tipo, aplicador);
+}
+
+/**
+ * Aplica un evento aceptado sobre el estado, si hay un aplicador registrado para su tipo.
+ * Lo usan el broker (en vivo) y la reproducción del diario.
+ * @param evento Evento aceptado por el broker
+ * @returns true si el evento modificó el estado
+ */
+export function aplicarEventoAEstado(evento: Evento): boolean {
+  const aplicador = aplicadores.get(evento.meta.tipo);
+  
+  if (!aplicador) {
+    return false;
+  }
+  
+  try {
+    aplicador(evento);
+    return true;
+  } catch (error) {
+    emitirEventoError(`Error al aplicar evento ${evento.meta.tipo} al estado`, error);
+    return false;
+  }
+}
+
 /**
  * Emite un evento informando que el estado ha sido modificado
  * @param clave Clave modificada
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cargarDispositivos, recargarDispositivos, getDispositivoPorId } from './registroDispositivos';
+import { EventBus } from '../utils/helpers';
+import { EsquemaEvento } from '../../core/eventBus';
+import type { CancelarSuscripcion } from '../../core/eventBus';
+import type { DispositivoAutorizado } from '../../core/dispositivos';
+
+// Contenido de dispositivos.json que devuelve el almacenamiento
+let archivo = '';
+
+vi.mock('../validacion/llaves', () => ({
+  cargarDispositivosAutorizados: () => {}
+}));
+
+vi.mock('../../almacenamiento', () => ({
+  almacenamiento: { leerArchivo: async () => archivo }
+}));
+
+const suscripciones: CancelarSuscripcion[] = [];
+
+function escribir(lista: DispositivoAutorizado[]): void {
+  archivo = JSON.stringify(lista);
+}
+
+describe('registroDispositivos', () => {
+  let revocaciones: Array<{ dispositivoId: string; motivo?: string }>;
+
+  beforeEach(async () => {
+    escribir([
+      { id: 'terminal-01', llave: 'llave-01', activo: true, rol: 'administrador' },
+      { id: 'terminal-02', llave: 'llave-02', activo: true },
+      { id: 'terminal-03', llave: 'llave-03', activo: true },
+      { id: 'terminal-04', llave: 'llave-04', activo: true },
+      { id: 'terminal-05', llave: 'llave-05', activo: false }
+    ]);
+    await cargarDispositivos();
+
+    revocaciones = [];
+    suscripciones.push(EventBus.on('core:llaveRevocada', evento => revocaciones.push(evento.payload)));
+  });
+
+  afterEach(() => {
+    suscripciones.splice(0).forEach(cancelar => cancelar());
+  });
+
+  it('revoca a los dispositivos eliminados, desactivados o con otra llave al recargar', async () => {
+    const cargas = vi.fn();
+    suscripciones.push(EventBus.on('core:dispositivosCargados', cargas));
+
+    escribir([
+      { id: 'terminal-01', llave: 'llave-01', activo: true, rol: 'administrador' },
+      { id: 'terminal-02', llave: 'llave-02', activo: false },
+      { id: 'terminal-03', llave: 'otra-llave', activo: true },
+      { id: 'terminal-05', llave: 'llave-05', activo: false }
+    ]);
+
+    const revocados = await recargarDispositivos();
+
+    expect(revocados).toEqual(['terminal-02', 'terminal-03', 'terminal-04']);
+    expect(revocaciones).toEqual([
+      { dispositivoId: 'terminal-02', motivo: 'Dispositivo desactivado' },
+      { dispositivoId: 'terminal-03', motivo: 'Llave del dispositivo cambiada' },
+      { dispositivoId: 'terminal-04', motivo: 'Dispositivo eliminado del registro' }
+    ]);
+    expect(cargas).toHaveBeenCalledWith(expect.objectContaining({
+      payload: { cantidadDispositivos: 4, dispositivosActivos: 2 }
+    }));
+  });
+
+  it('emite las revocaciones con el sobre común de los eventos del corazon', async () => {
+    const eventos = vi.fn();
+    suscripciones.push(EventBus.on('core:llaveRevocada', eventos));
+
+    escribir([{ id: 'terminal-01', llave: 'llave-01', activo: false }]);
+    await recargarDispositivos();
+
+    const [evento] = eventos.mock.calls[0];
+    expect(EsquemaEvento.safeParse(evento).success).toBe(true);
+    expect(evento.meta).toMatchObject({ tipo: 'core:llaveRevocada', origen: 'corazon', prioridad: 8 });
+    expect(evento.meta.versionEsquema).toBeDefined();
+  });
+
+  it('no revoca un dispositivo cuya llave anterior sigue aceptada tras una rotación', async () => {
+    escribir([
+      { id: 'terminal-01', llave: 'llave-nueva', activo: true, llaveAnterior: 'llave-01', llaveAnteriorExpiraEn: '2099-01-01T00:00:00.000Z' },
+      { id: 'terminal-02', llave: 'llave-02', activo: true },
+      { id: 'terminal-03', llave: 'llave-03', activo: true },
+      { id: 'terminal-04', llave: 'llave-04', activo: true }
+    ]);
+
+    expect(await recargarDispositivos()).toEqual([]);
+    expect(getDispositivoPorId('terminal-01')?.llave).toBe('llave-nueva');
+  });
+
+  it('conserva la lista vigente si el archivo nuevo no es válido', async () => {
+    archivo = JSON.stringify([{ id: 'terminal-01', activo: true }]);
+
+    expect(await recargarDispositivos()).toEqual([]);
+    expect(revocaciones).toEqual([]);
+    expect(getDispositivoPorId('terminal-04')?.llave).toBe('llave-04');
+  });
+});
@@ -2,36 +2,42 @@
  * registroDispositivos.ts
  * 
  * Se encarga de cargar y exponer la lista de dispositivos autorizados desde el archivo dispositivos.json.
- * No tiene persistencia, solo trabaja en memoria.
+ * Trabaja en memoria; solo escribe en disco, a través del almacenamiento, al dar de alta un dispositivo o rotar su llave.
  * Valida con Zod, emite eventos si hay errores o éxito, y expone funciones puras para acceso controlado.
+ * Es el único que vigila el archivo para recargarlo en caliente: una lista inválida nunca reemplaza a la vigente,
+ * y los dispositivos que desaparecen, se desactivan o cambian de llave se revocan con `core:llaveRevocada`
+ * (salvo que la llave anterior siga aceptada tras una rotación, ver rotacionLlaves.ts).
+ * Cada carga emite `core:dispositivosCargados`, con el que el microservidor vuelve a leer su copia.
  */
 
-import { z } from 'zod';
-import { EventBus } from '../utils/helpers';
+import path from 'path';
+import { EventBus, crearEventoBase } from '../utils/helpers';
+import { vigilarArchivo } from '../../core/vigilanteArchivos';
+import { leerJSON, guardarJSON } from '../../almacenamiento/utils/gestorArchivos';
+import type { CancelarSuscripcion } from '../../core/eventBus';
+import { DispositivoSchema, ListaDispositivosSchema, DispositivoAutorizado } from '../../core/dispositivos';
 import { cargarDispositivosAutorizados } from '../validacion/llaves';
 import { almacenamiento } from '../../almacenamiento'; // Módulo externo para acceso a archivos
 
-// Esquema de validación para cada dispositivo
-export const DispositivoSchema = z.object({
-  id: z.string().min(1),
-  llave: z.string().min(1),
-  activo: z.boolean(),
-  rol: z.string().optional()
-});
-
-// Esquema para el array completo de dispositivos
-const DispositivosSchema = z.array(DispositivoSchema);
-
-// Tipo derivado del esquema
-export type DispositivoAutorizado = z.infer<typeof DispositivoSchema>;
+export type { DispositivoAutorizado };
 
 // Lista de dispositivos en memoria
 let dispositivosAutorizados: DispositivoAutorizado[] = [];
 
+// Ruta del archivo de dispositivos que se vigila y en el que se escriben altas y rotaciones
+const RUTA_DISPOSITIVOS = path.join(process.cwd(), 'config', 'dispositivos.json');
+
+// Cancelación de la vigilancia del archivo, si está activa
+let dejarDeVigilar: CancelarSuscripcion | null = null;
+
+// Escrituras de dispositivos.json encadenadas (ver modificarRegistro)
+let escriturasPendientes: Promise<void> = Promise.resolve();
+
 /**
  * Carga la lista inicial de dispositivos desde almacenamiento y la valida
+ * @returns true si se cargó; si no, se conserva la lista anterior
  */
-export async function cargarDispositivos(): Promise<void> {
+export async function cargarDispositivos(): Promise<boolean> {
   try {
     // Ruta del archivo de dispositivos
     const rutaArchivo = '/config/dispositivos.json';
@@ -47,7 +53,7 @@ export async function cargarDispositivos(): Promise<void> {
     const datos = JSON.parse(contenido);
     
     // Validar la estructura con Zod
-    const resultado = DispositivosSchema.safeParse(datos);
+    const resultado = ListaDispositivosSchema.safeParse(datos);
     
     if (!resultado.success) {
       throw new Error(`Estructura inválida en archivo de dispositivos: ${resultado.error.message}`);
@@ -61,19 +67,112 @@ export async function cargarDispositivos(): Promise<void> {
     
     // Emitir evento de éxito
     emitirEventoDispositivosCargados();
+    return true;
     
   } catch (error) {
     // Emitir evento de error
     emitirEventoError('Error al cargar dispositivos', error);
+    return false;
+  }
+}
+
+/**
+ * Permite recargar el archivo de dispositivos en caliente, reemplazando la lista actual.
+ * Revoca los dispositivos que dejaron de estar autorizados con la llave que tenían.
+ * @returns IDs de los dispositivos revocados
+ */
+export async function recargarDispositivos(): Promise<string[]> {
+  const anteriores = dispositivosAutorizados;
+  
+  if (!(await cargarDispositivos())) {
+    return [];
   }
+  
+  const revocados: string[] = [];
+
+  for (const anterior of anteriores) {
+    const actual = getDispositivoPorId(anterior.id);
+    let motivo: string | null = null;
+
+    if (!anterior.activo) {
+      continue;
+    } else if (!actual) {
+      motivo = 'Dispositivo eliminado del registro';
+    } else if (!actual.activo) {
+      motivo = 'Dispositivo desactivado';
+    } else if (actual.llave !== anterior.llave && actual.llaveAnterior !== anterior.llave) {
+      motivo = 'Llave del dispositivo cambiada';
+    }
+
+    if (motivo) {
+      emitirEventoLlaveRevocada(anterior.id, motivo);
+      revocados.push(anterior.id);
+    }
+  }
+
+  return revocados;
+}
+
+/**
+ * Vigila config/dispositivos.json y recarga la lista cada vez que cambia
+ */
+export function vigilarDispositivos(): void {
+  dejarDeVigilar?.();
+  dejarDeVigilar = vigilarArchivo(RUTA_DISPOSITIVOS, async () => { await recargarDispositivos(); });
+}
+
+/**
+ * Deja de vigilar el archivo de dispositivos
+ */
+export function dejarDeVigilarDispositivos(): void {
+  dejarDeVigilar?.();
+  dejarDeVigilar = null;
+}
+
+/**
+ * Da de alta un dispositivo al final de dispositivos.json (el almacenamiento guarda un respaldo antes de escribir)
+ * y lo añade a la lista en memoria
+ * @param dispositivo Dispositivo nuevo
+ * @throws Error si el archivo no se puede leer o guardar, o si ya existe un dispositivo con ese ID
+ */
+export function agregarDispositivo(dispositivo: DispositivoAutorizado): Promise<void> {
+  return modificarRegistro((lista) => {
+    const nuevo = DispositivoSchema.parse(dispositivo);
+    
+    if (lista.some(existente => existente.id === nuevo.id)) {
+      throw new Error(`Ya existe un dispositivo con ID ${nuevo.id}`);
+    }
+    
+    return [...lista, nuevo];
+  });
 }
 
 /**
- * Permite recargar el archivo de dispositivos en caliente, reemplazando la lista actual
+ * Modifica un dispositivo de dispositivos.json (con respaldo previo) y de la lista en memoria
+ * @param id ID del dispositivo
+ * @param cambio Recibe el dispositivo tal como está en el archivo y devuelve su nueva versión
+ * @returns El dispositivo actualizado
+ * @throws Error si el archivo no se puede leer o guardar, o si el dispositivo no existe
  */
-export async function recargarDispositivos(): Promise<void> {
-  // Simplemente reutilizamos la función de carga inicial
-  await cargarDispositivos();
+export async function actualizarDispositivo(
+  id: string,
+  cambio: (dispositivo: DispositivoAutorizado) => DispositivoAutorizado
+): Promise<DispositivoAutorizado> {
+  let actualizado: DispositivoAutorizado | undefined;
+
+  await modificarRegistro((lista) => {
+    const indice = lista.findIndex(dispositivo => dispositivo.id === id);
+
+    if (indice === -1) {
+      throw new Error(`No existe un dispositivo con ID ${id}`);
+    }
+
+    const nuevo = DispositivoSchema.parse(cambio(lista[indice]));
+    actualizado = nuevo;
+    return lista.map((dispositivo, i) => i === indice ? nuevo : dispositivo);
+  });
+
+  return actualizado!;
 }
 
 /**
@@ -94,6 +193,16 @@ export function getDispositivoPorId(id: string): DispositivoAutorizado | undefin
   return dispositivosAutorizados.find(dispositivo => dispositivo.id === id);
 }
 
+/**
+ * Indica si la llave vigente de un dispositivo ya caducó
+ * @param id Identificador del dispositivo
+ * @returns true si el dispositivo tiene caducidad y ya pasó
+ */
+export function esLlaveExpirada(id: string): boolean {
+  const expiraEn = getDispositivoPorId(id)?.expiraEn;
+  return expiraEn !== undefined && Date.parse(expiraEn) <= Date.now();
+}
+
 /**
  * Verifica si un dispositivo está activo
  * @param id Identificador del dispositivo
@@ -104,6 +213,34 @@ export function esDispositivoActivo(id: string): boolean {
   return dispositivo ? dispositivo.activo : false;
 }
 
+/**
+ * Lee dispositivos.json, aplica un cambio a la lista y la guarda (el almacenamiento hace un respaldo antes).
+ * Los cambios se encadenan para que dos escrituras simultáneas no se pisen.
+ * @param cambio Recibe la lista del archivo y devuelve la nueva
+ */
+function modificarRegistro(cambio: (lista: DispositivoAutorizado[]) => DispositivoAutorizado[]): Promise<void> {
+  const escritura = escriturasPendientes.then(async () => {
+    const datos = await leerJSON<unknown>(RUTA_DISPOSITIVOS);
+    
+    if (datos === null) {
+      throw new Error(`No se pudo leer el archivo de dispositivos: ${RUTA_DISPOSITIVOS}`);
+    }
+    
+    const lista = cambio(ListaDispositivosSchema.parse(datos));
+    
+    if (!(await guardarJSON(RUTA_DISPOSITIVOS, lista))) {
+      throw new Error(`No se pudo guardar el archivo de dispositivos: ${RUTA_DISPOSITIVOS}`);
+    }
+    
+    dispositivosAutorizados = lista;
+    cargarDispositivosAutorizados(dispositivosAutorizados);
+    emitirEventoDispositivosCargados();
+  });
+  
+  escriturasPendientes = escritura.catch(() => undefined);
+  return escritura;
+}
+
 /**
  * Emite un evento informando que se han cargado los dispositivos
  */
@@ -128,6 +265,20 @@ function emitirEventoDispositivosCargados(): void {
   EventBus.emit('core:dispositivosCargados', evento);
 }
 
+/**
+ * Emite un evento de revocación para que se corten las conexiones del dispositivo
+ * @param dispositivoId ID del dispositivo revocado
+ * @param motivo Razón de la revocación
+ */
+function emitirEventoLlaveRevocada(dispositivoId: string, motivo: string): void {
+  const evento = crearEventoBase('core:llaveRevocada', {
+    dispositivoId,
+    motivo
+  }, 'corazon', 8);
+  
+  EventBus.emit('core:llaveRevocada', evento);
+}
+
 /**
  * Emite un evento de error
  * @param mensaje Mensaje descriptivo del error
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { iniciarRotacionLlaves, detenerRotacionLlaves, revisarLlaves, rotarLlave } from './rotacionLlaves';
+import { EventBus } from '../utils/helpers';
+import type { CancelarSuscripcion } from '../../core/eventBus';
+import type { DispositivoAutorizado } from '../../core/dispositivos';
+
+// Registro en memoria en lugar de dispositivos.json
+let registro: DispositivoAutorizado[] = [];
+
+vi.mock('./registroDispositivos', () => ({
+  getDispositivos: () => [...registro],
+  esLlaveExpirada: (id: string) => {
+    const expiraEn = registro.find(dispositivo => dispositivo.id === id)?.expiraEn;
+    return expiraEn !== undefined && Date.parse(expiraEn) <= Date.now();
+  },
+  actualizarDispositivo: async (id: string, cambio: (dispositivo: DispositivoAutorizado) => DispositivoAutorizado) => {
+    const actual = registro.find(dispositivo => dispositivo.id === id);
+    if (!actual) {
+      throw new Error(`No existe un dispositivo con ID ${id}`);
+    }
+    const nuevo = cambio(actual);
+    registro = registro.map(dispositivo => dispositivo.id === id ? nuevo : dispositivo);
+    return nuevo;
+  }
+}));
+
+const HORA = 3600000;
+const dentroDe = (ms: number) => new Date(Date.now() + ms).toISOString();
+const buscar = (id: string) => registro.find(dispositivo => dispositivo.id === id);
+
+const suscripciones: CancelarSuscripcion[] = [];
+
+describe('rotacionLlaves', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    iniciarRotacionLlaves({ habilitada: false, vigenciaDias: 30, anticipacionHoras: 48, periodoGraciaHoras: 12 });
+
+    registro = [
+      { id: 'caduca-pronto', llave: 'llave-1', activo: true, expiraEn: dentroDe(24 * HORA) },
+      { id: 'caduca-tarde', llave: 'llave-2', activo: true, expiraEn: dentroDe(10 * 24 * HORA) },
+      { id: 'sin-caducidad', llave: 'llave-3', activo: true },
+      { id: 'inactivo', llave: 'llave-4', activo: false, expiraEn: dentroDe(HORA) },
+      { id: 'caducado', llave: 'llave-5', activo: true, expiraEn: dentroDe(-HORA) }
+    ];
+  });
+
+  afterEach(() => {
+    detenerRotacionLlaves();
+    suscripciones.splice(0).forEach(cancelar => cancelar());
+    vi.restoreAllMocks();
+  });
+
+  it('rota solo las llaves activas que caducan dentro del margen y aún no han caducado', async () => {
+    expect(await revisarLlaves()).toEqual(['caduca-pronto']);
+    expect(buscar('caduca-tarde')?.llave).toBe('llave-2');
+    expect(buscar('caducado')?.llave).toBe('llave-5');
+  });
+
+  it('conserva la llave reemplazada durante el periodo de gracia y envía la nueva al microservidor', async () => {
+    const rotaciones = vi.fn();
+    suscripciones.push(EventBus.on('core:llaveRotada', rotaciones));
+
+    await rotarLlave('caduca-pronto');
+
+    const dispositivo = buscar('caduca-pronto');
+    expect(dispositivo?.llave).toMatch(/^[0-9a-f]{64}$/);
+    expect(dispositivo?.llaveAnterior).toBe('llave-1');
+    expect(Date.parse(dispositivo?.llaveAnteriorExpiraEn ?? '') - Date.now()).toBeCloseTo(12 * HORA, -4);
+    expect(Date.parse(dispositivo?.expiraEn ?? '') - Date.now()).toBeCloseTo(30 * 24 * HORA, -4);
+    expect(rotaciones).toHaveBeenCalledWith(expect.objectContaining({
+      payload: expect.objectContaining({ dispositivoId: 'caduca-pronto', llave: dispositivo?.llave, expiraEn: dispositivo?.expiraEn })
+    }));
+  });
+
+  it('no da periodo de gracia a una llave que ya había caducado', async () => {
+    await rotarLlave('caducado');
+
+    expect(buscar('caducado')).toMatchObject({ llaveAnterior: undefined, llaveAnteriorExpiraEn: undefined });
+  });
+
+  it('falla al rotar un dispositivo que no existe', async () => {
+    await expect(rotarLlave('desconocido')).rejects.toThrow('No existe un dispositivo con ID desconocido');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * rotacionLlaves.ts
+ *
+ * Rotación programada de las llaves de dispositivo que tienen caducidad (`expiraEn` en dispositivos.json).
+ * Cada cierto tiempo se revisan las llaves que caducan pronto y se reemplazan por una nueva:
+ * la anterior pasa a `llaveAnterior` y se sigue aceptando durante el periodo de gracia,
+ * para que el dispositivo pueda recibir la nueva aunque no esté conectado en ese momento.
+ * La llave nueva viaja al microservidor por el canal interno `core:llaveRotada`, que la entrega por el socket.
+ * Una llave caducada no se rota: el broker la rechaza con `core:llaveRevocada`.
+ */
+
+import { z } from 'zod';
+import { randomBytes } from 'crypto';
+import { EventBus, crearEventoBase } from '../utils/helpers';
+import { actualizarDispositivo, getDispositivos, esLlaveExpirada } from './registroDispositivos';
+
+// Esquema de configuración (clave "rotacionLlaves" en pizzepos.config.json)
+export const ConfigRotacionLlavesSchema = z.object({
+  habilitada: z.boolean().default(true),
+  intervaloRevisionMinutos: z.number().positive().default(60),
+  // Vigencia de cada llave nueva
+  vigenciaDias: z.number().positive().default(90),
+  // Margen antes de la caducidad en el que se rota la llave
+  anticipacionHoras: z.number().positive().default(72),
+  // Tiempo durante el que se sigue aceptando la llave anterior
+  periodoGraciaHoras: z.number().min(0).default(24)
+});
+
+export type ConfigRotacionLlaves = z.infer<typeof ConfigRotacionLlavesSchema>;
+
+const MS_POR_HORA = 3600000;
+
+// Configuración activa
+let configuracion: ConfigRotacionLlaves = ConfigRotacionLlavesSchema.parse({});
+
+// Temporizador de la revisión periódica
+let temporizador: NodeJS.Timeout | null = null;
+
+/**
+ * Aplica la configuración y programa la revisión periódica de llaves
+ * @param opciones Configuración parcial (los valores ausentes toman su valor por defecto)
+ */
+export function iniciarRotacionLlaves(opciones: unknown = {}): void {
+  configuracion = ConfigRotacionLlavesSchema.parse(opciones ?? {});
+  detenerRotacionLlaves();
+
+  if (!configuracion.habilitada) {
+    return;
+  }
+
+  temporizador = setInterval(() => {
+    revisarLlaves().catch(error => console.error('Error en la rotación de llaves:', error));
+  }, configuracion.intervaloRevisionMinutos * 60000);
+  temporizador.unref();
+
+  revisarLlaves().catch(error => console.error('Error en la rotación de llaves:', error));
+}
+
+/**
+ * Detiene la revisión periódica de llaves
+ */
+export function detenerRotacionLlaves(): void {
+  if (temporizador) {
+    clearInterval(temporizador);
+    temporizador = null;
+  }
+}
+
+/**
+ * Rota las llaves activas que caducan dentro del margen de anticipación
+ * @returns IDs de los dispositivos rotados
+ */
+export async function revisarLlaves(): Promise<string[]> {
+  const limite = Date.now() + configuracion.anticipacionHoras * MS_POR_HORA;
+  const rotados: string[] = [];
+
+  const candidatos = getDispositivos().filter(dispositivo =>
+    dispositivo.activo
+    && dispositivo.expiraEn !== undefined
+    && Date.parse(dispositivo.expiraEn) <= limite
+    && !esLlaveExpirada(dispositivo.id)
+  );
+
+  for (const dispositivo of candidatos) {
+    try {
+      await rotarLlave(dispositivo.id);
+      rotados.push(dispositivo.id);
+    } catch (error) {
+      console.error(`No se pudo rotar la llave de ${dispositivo.id}:`, error);
+    }
+  }
+
+  return rotados;
+}
+
+/**
+ * Reemplaza la llave de un dispositivo por una nueva y la envía al microservidor.
+ * La llave reemplazada se acepta durante el periodo de gracia, salvo que ya hubiera caducado.
+ * @param dispositivoId ID del dispositivo
+ * @throws Error si el dispositivo no existe o no se puede guardar el registro
+ */
+export async function rotarLlave(dispositivoId: string): Promise<void> {
+  const ahora = Date.now();
+  const llave = randomBytes(32).toString('hex');
+  const expiraEn = new Date(ahora + configuracion.vigenciaDias * 24 * MS_POR_HORA).toISOString();
+  const llaveAnteriorExpiraEn = new Date(ahora + configuracion.periodoGraciaHoras * MS_POR_HORA).toISOString();
+
+  await actualizarDispositivo(dispositivoId, (dispositivo) => {
+    const anteriorCaducada = dispositivo.expiraEn !== undefined && Date.parse(dispositivo.expiraEn) <= ahora;
+
+    return {
+      ...dispositivo,
+      llave,
+      expiraEn,
+      llaveAnterior: anteriorCaducada ? undefined : dispositivo.llave,
+      llaveAnteriorExpiraEn: anteriorCaducada ? undefined : llaveAnteriorExpiraEn
+    };
+  });
+
+  console.log(`Llave de ${dispositivoId} rotada; vence el ${expiraEn}`);
+
+  EventBus.emit('core:llaveRotada', crearEventoBase('core:llaveRotada', {
+    dispositivoId,
+    llave,
+    expiraEn,
+    llaveAnteriorExpiraEn
+  }, 'corazon', 8));
+}
@@ -0,0 +1,160 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { procesarEvento } from './broker';
+import { usarMiddleware } from './middlewares';
+import { iniciarDiario } from './diarioEventos';
+import { vaciarDeduplicador } from './deduplicador';
+import { EventBus } from '../utils/helpers';
+import { aplicarPoliticaRoles } from '../../core/politicaRoles';
+import type { CancelarSuscripcion } from '../../core/eventBus';
+
+vi.mock('../validacion/llaves', () => ({
+  validarLlaveDispositivo: () => true
+}));
+
+vi.mock('../estado/registroDispositivos', () => ({
+  getDispositivoPorId: (id: string) => ({ id, rol: 'administrador', activo: true }),
+  esLlaveExpirada: () => false
+}));
+
+const suscripciones: CancelarSuscripcion[] = [];
+
+function eventoDeDispositivo(tipo: string = 'core:logGenerado', payload: Record<string, unknown> = { mensaje: 'Ticket impreso' }) {
+  return {
+    meta: { id: randomUUID(), timestamp: new Date().toISOString(), tipo, origen: 'terminal', prioridad: 5 },
+    payload,
+    contexto: { dispositivoId: 'terminal-01' }
+  };
+}
+
+// Registra lo que emite el broker para cada evento procesado
+function observar() {
+  const recibidos: string[] = [];
+  const duplicados: string[] = [];
+  const errores: Array<{ tipoError?: string; eventoOriginalId?: string }> = [];
+
+  suscripciones.push(
+    EventBus.on('core:eventoRecibido', evento => recibidos.push(evento.meta.id)),
+    EventBus.on('core:eventoDuplicado', evento => duplicados.push(evento.payload.eventoOriginalId)),
+    EventBus.on('core:errorDetectado', evento => errores.push(evento.payload))
+  );
+
+  return { recibidos, duplicados, errores };
+}
+
+const esperarCadena = () => new Promise(resolver => setTimeout(resolver, 20));
+
+describe('broker', () => {
+  beforeAll(async () => {
+    await iniciarDiario({ habilitado: false });
+    aplicarPoliticaRoles({ roles: { administrador: { emitir: { permitir: ['**'] } } } });
+  });
+
+  beforeEach(() => {
+    vaciarDeduplicador();
+  });
+
+  afterEach(() => {
+    suscripciones.splice(0).forEach(cancelar => cancelar());
+  });
+
+  describe('tipos reservados', () => {
+    it.each([
+      ['un canal interno del broker', 'core:eventoDistribuido', { eventoOriginal: {} }],
+      ['una revocación de llave', 'core:llaveRevocada', { dispositivoId: 'terminal-02', motivo: 'Dispositivo desactivado' }],
+      ['un canal del microservidor', 'microservidor:cerrarConexion', { dispositivoId: 'terminal-02', motivo: 'Fuera' }],
+      ['la respuesta a una solicitud', 'core:pong', { timestamp: new Date().toISOString(), estado: 'activo', modulosActivos: 0 }]
+    ])('rechaza %s aunque la política del rol lo permita', async (_descripcion, tipo, payload) => {
+      const { recibidos, errores } = observar();
+      const evento = eventoDeDispositivo(tipo, payload);
+
+      procesarEvento(evento);
+      await esperarCadena();
+
+      expect(recibidos).toEqual([]);
+      expect(errores).toContainEqual(expect.objectContaining({ tipoError: 'TIPO_RESERVADO', eventoOriginalId: evento.meta.id }));
+    });
+
+    it('acepta los eventos del corazon que un dispositivo sí puede emitir', async () => {
+      const { recibidos, errores } = observar();
+      const evento = eventoDeDispositivo('core:errorDetectado', { mensaje: 'Impresora sin papel', componente: 'impresora' });
+
+      procesarEvento(evento);
+      await esperarCadena();
+
+      expect(errores).not.toContainEqual(expect.objectContaining({ tipoError: 'TIPO_RESERVADO' }));
+      expect(recibidos).toEqual([evento.meta.id]);
+    });
+  });
+
+  describe('deduplicación', () => {
+    it('descarta un reenvío del mismo id dentro de la ventana', async () => {
+      const { recibidos, duplicados } = observar();
+      const evento = eventoDeDispositivo();
+
+      procesarEvento(evento);
+      procesarEvento(structuredClone(evento));
+      await esperarCadena();
+
+      expect(recibidos).toEqual([evento.meta.id]);
+      expect(duplicados).toEqual([evento.meta.id]);
+    });
+
+    it('no deja pasar dos copias simultáneas aunque un middleware asíncrono se interponga', async () => {
+      const { recibidos, duplicados } = observar();
+      const quitar = usarMiddleware(async () => {
+        await new Promise(resolver => setTimeout(resolver, 5));
+      }, { nombre: 'esperaAsincrona' });
+      const evento = eventoDeDispositivo();
+
+      procesarEvento(evento);
+      procesarEvento(structuredClone(evento));
+      await esperarCadena();
+      quitar();
+
+      expect(recibidos).toEqual([evento.meta.id]);
+      expect(duplicados).toEqual([evento.meta.id]);
+    });
+
+    it('libera el id si una etapa posterior rechaza el evento, para que el reenvío se procese', async () => {
+      const { recibidos, errores } = observar();
+      let rechazar = true;
+      const quitar = usarMiddleware(() => {
+        if (rechazar) {
+          rechazar = false;
+          return { rechazar: { tipoError: 'NO_DISPONIBLE', mensaje: 'Cocina cerrada' } };
+        }
+      }, { nombre: 'rechazoTemporal' });
+      const evento = eventoDeDispositivo();
+
+      procesarEvento(evento);
+      await esperarCadena();
+      procesarEvento(structuredClone(evento));
+      await esperarCadena();
+      quitar();
+
+      expect(errores).toContainEqual(expect.objectContaining({ tipoError: 'NO_DISPONIBLE', eventoOriginalId: evento.meta.id }));
+      expect(recibidos).toEqual([evento.meta.id]);
+    });
+
+    it('libera el id si una etapa posterior detiene el evento', async () => {
+      const { recibidos } = observar();
+      let detener = true;
+      const quitar = usarMiddleware(() => {
+        if (detener) {
+          detener = false;
+          return { detener: true };
+        }
+      }, { nombre: 'detencionTemporal' });
+      const evento = eventoDeDispositivo();
+
+      procesarEvento(evento);
+      await esperarCadena();
+      procesarEvento(structuredClone(evento));
+      await esperarCadena();
+      quitar();
+
+      expect(recibidos).toEqual([evento.meta.id]);
+    });
+  });
+});
@@ -2,68 +2,215 @@
 
 /**
  * Broker de eventos para el sistema PizzePOS.
+ * Cada evento recorre una cadena de middlewares cuyas etapas internas son:
  * - Valida la estructura del evento entrante con Zod.
- * - Verifica la llave del dispositivo emisor.
+ * - Actualiza el payload a la versión actual de su esquema (upcasters).
+ * - Valida el tipo y el payload contra el catálogo de eventos.
+ * - Verifica la llave del dispositivo emisor y su caducidad.
+ * - Comprueba que el rol del emisor pueda emitir el tipo de evento (politicaRoles.ts).
+ * - Descarta los reenvíos de un mismo `meta.id` dentro de la ventana de deduplicación.
  * - Emite eventos internos según resultado.
- * - Redistribuye el evento a través del distribuidor.
+ * - Aplica el evento al estado y lo anota en el diario de eventos.
+ * - Encola el evento por prioridad para que el distribuidor lo redistribuya.
+ * Otros módulos pueden intercalar sus propias etapas con `usarMiddleware` (middlewares.ts).
  */
 
 import { validarLlaveDispositivo } from '../validacion/llaves';
-import { distribuirEvento } from './distribuidor';
-import { EventBus } from '../../core/eventos';
-import { z } from 'zod';
-
-// Esquema Zod para validación estructural del evento recibido
-const EventoSchema = z.object({
-  meta: z.object({
-    id: z.string().uuid(),
-    timestamp: z.string().datetime(),
-    tipo: z.string(),
-    origen: z.string(),
-    prioridad: z.number().int().positive()
-  }),
-  payload: z.record(z.any()),
-  contexto: z.object({
-    dispositivoId: z.string()
-  })
-});
+import { encolarEvento, configurarCola } from './colaEventos';
+import { registrarEnDiario } from './diarioEventos';
+import { reservarId, liberarId } from './deduplicador';
+import { iniciarCartasMuertas } from './cartasMuertas';
+import { definirMiddlewaresInternos, ejecutarMiddlewares } from './middlewares';
+import { aplicarEventoAEstado } from '../estado/estado';
+import { getDispositivoPorId, esLlaveExpirada } from '../estado/registroDispositivos';
+import { EventBus, crearEventoBase } from '../utils/helpers';
+import { getClaveConfig } from '../config/config';
+import { EsquemaEvento } from '../../core/eventBus';
+import { obtenerEsquemaPayload, esTipoInterno } from '../../core/catalogoEventos';
+import { actualizarEvento } from '../../core/versionesEventos';
+import { estaAutorizado, resolverRol } from '../../core/politicaRoles';
+import { z, ZodIssue } from 'zod';
+
+// Esquema Zod para validación estructural del evento recibido (sobre común a todos los eventos)
+const EventoSchema = EsquemaEvento;
 
 type TipoEvento = z.infer<typeof EventoSchema>;
 
+export type Evento = TipoEvento;
+
+/**
+ * Conecta el broker al bus compartido y configura la cola de prioridad.
+ * Los eventos que llegan por el canal `core:procesarEvento` (los que el microservidor recibe
+ * de los dispositivos) pasan por el mismo flujo que `procesarEvento`.
+ */
+export const iniciarBroker = (): void => {
+  configurarCola(getClaveConfig('colaEventos'));
+  iniciarCartasMuertas(getClaveConfig('cartasMuertas'));
+
+  EventBus.off('core:procesarEvento', procesarEvento);
+  EventBus.on('core:procesarEvento', procesarEvento);
+};
+
 /**
- * Procesa un evento crudo:
- * 1. Valida estructura.
- * 2. Valida dispositivo.
- * 3. Emite evento recibido y lo distribuye.
- * 4. Notifica errores si falla algo.
+ * Procesa un evento crudo haciéndolo pasar por la cadena de middlewares (ver middlewares.ts).
+ * Etapas internas, en orden:
+ * 1. sobre: valida estructura.
+ * 2. tipoReservado: rechaza los eventos internos del servidor (ver `esTipoInterno` en el catálogo).
+ * 3. versionado: lleva el payload a la versión actual de su esquema con los upcasters registrados.
+ * 4. catalogo: valida que el tipo exista en el catálogo y que el payload cumpla su esquema.
+ * 5. llave: valida dispositivo y que su llave no haya caducado.
+ * 6. autorizacion: descarta el evento si el rol del dispositivo no puede emitir su tipo.
+ * 7. deduplicacion: descarta el evento si su id ya se vio dentro de la ventana; si no, lo anota
+ *    (y lo vuelve a quitar si una etapa posterior rechaza o detiene el evento).
+ * 8. aceptar: emite evento recibido, lo aplica al estado, lo anota en el diario y lo encola.
+ * Los middlewares añadidos con `usarMiddleware` se ejecutan, por defecto, justo antes de "aceptar".
+ * Cualquier rechazo se notifica con un `core:errorDetectado`.
+ * @param eventoCrudo Evento tal como llegó
  */
 export const procesarEvento = (eventoCrudo: unknown): void => {
-  try {
-    const evento = EventoSchema.parse(eventoCrudo) as TipoEvento;
+  ejecutarMiddlewares(eventoCrudo, (contexto, rechazo) => {
+    // Si no se aceptó, su id deja de contar como visto: un reenvío debe poder procesarse
+    if (typeof contexto.datos.idReservado === 'string') {
+      liberarId(contexto.datos.idReservado);
+    }
+
+    if (rechazo) {
+      rechazarEvento(rechazo.tipoError, rechazo.mensaje, contexto.evento, rechazo.problemas);
+    }
+  }).catch((error) => {
+    rechazarEvento('ERROR_PROCESAMIENTO', error instanceof Error ? error.message : 'Error desconocido', eventoCrudo);
+  });
+};
+
+definirMiddlewaresInternos({
+  sobre: (contexto) => {
+    const resultadoSobre = EventoSchema.safeParse(contexto.crudo);
+
+    if (!resultadoSobre.success) {
+      return { rechazar: { tipoError: 'EVENTO_INVALIDO', mensaje: 'Estructura de evento inválida', problemas: resultadoSobre.error.issues } };
+    }
+
+    contexto.evento = resultadoSobre.data as TipoEvento;
+  },
+
+  // Los canales internos no pueden redistribuirse o se reinyectarían a sí mismos,
+  // y un dispositivo no puede hacerse pasar por el servidor (revocaciones, presencia, respuestas)
+  tipoReservado: ({ evento }) => {
+    if (esTipoInterno(evento.meta.tipo)) {
+      return { rechazar: { tipoError: 'TIPO_RESERVADO', mensaje: `Tipo de evento reservado al servidor: ${evento.meta.tipo}` } };
+    }
+  },
+
+  versionado: (contexto) => {
+    try {
+      contexto.evento = actualizarEvento(contexto.evento);
+    } catch (error) {
+      return { rechazar: { tipoError: 'VERSION_NO_SOPORTADA', mensaje: error instanceof Error ? error.message : String(error) } };
+    }
+  },
 
+  catalogo: ({ evento }) => {
+    const esquemaPayload = obtenerEsquemaPayload(evento.meta.tipo);
+
+    if (!esquemaPayload) {
+      return { rechazar: { tipoError: 'TIPO_DESCONOCIDO', mensaje: `Tipo de evento no registrado en el catálogo: ${evento.meta.tipo}` } };
+    }
+
+    const resultadoPayload = esquemaPayload.safeParse(evento.payload);
+
+    if (!resultadoPayload.success) {
+      return { rechazar: { tipoError: 'PAYLOAD_INVALIDO', mensaje: `Payload inválido para ${evento.meta.tipo}`, problemas: resultadoPayload.error.issues } };
+    }
+
+    evento.payload = resultadoPayload.data;
+  },
+
+  llave: ({ evento }) => {
     const esValido = validarLlaveDispositivo(
       evento.contexto.dispositivoId,
       evento.meta.origen
     );
+    const expirada = esLlaveExpirada(evento.contexto.dispositivoId);
+
+    if (!esValido || expirada) {
+      EventBus.emit('core:llaveRevocada', crearEventoBase('core:llaveRevocada', {
+        dispositivoId: evento.contexto.dispositivoId,
+        motivo: expirada ? 'Llave expirada' : 'Llave no válida o dispositivo inactivo'
+      }, 'corazon', 8));
+      return { detener: true };
+    }
+  },
+
+  autorizacion: ({ evento }) => {
+    const { dispositivoId } = evento.contexto;
+    const rol = resolverRol(getDispositivoPorId(dispositivoId)?.rol);
 
-    if (!esValido) {
-      EventBus.emit('core:llaveRevocada', {
-        dispositivo: evento.contexto.dispositivoId,
-        motivo: 'Llave no válida o dispositivo inactivo'
-      });
-      return;
+    if (!estaAutorizado(rol, evento.meta.tipo, 'emitir')) {
+      EventBus.emit('core:accesoDenegado', crearEventoBase('core:accesoDenegado', {
+        dispositivoId,
+        rol,
+        tipoEvento: evento.meta.tipo,
+        direccion: 'emitir',
+        eventoOriginalId: evento.meta.id,
+        componente: 'broker'
+      }, 'corazon', 8));
+      return { detener: true };
     }
+  },
 
+  // Comprueba y anota el id en el mismo paso: un middleware asíncrono posterior no puede dejar pasar dos copias
+  deduplicacion: (contexto) => {
+    const { evento } = contexto;
+    const primeraRecepcion = reservarId(evento.meta.id);
+
+    if (primeraRecepcion !== undefined) {
+      EventBus.emit('core:eventoDuplicado', crearEventoBase('core:eventoDuplicado', {
+        eventoOriginalId: evento.meta.id,
+        eventoOriginalTipo: evento.meta.tipo,
+        dispositivoId: evento.contexto.dispositivoId,
+        primeraRecepcion: new Date(primeraRecepcion).toISOString()
+      }, 'corazon', 6));
+      return { detener: true };
+    }
+
+    contexto.datos.idReservado = evento.meta.id;
+  },
+
+  aceptar: ({ evento }) => {
     EventBus.emit('core:eventoRecibido', evento);
-    distribuirEvento(evento);
-
-  } catch (error) {
-    EventBus.emit('core:errorDetectado', {
-      tipoError: 'EVENTO_INVALIDO',
-      mensaje: error instanceof Error ? error.message : 'Error desconocido',
-      eventoOriginal: eventoCrudo
-    });
+    aplicarEventoAEstado(evento);
+    registrarEnDiario(evento);
+    encolarEvento(evento);
   }
+});
+
+/**
+ * Emite un `core:errorDetectado` estructurado para un evento rechazado por el broker
+ * @param tipoError Código del motivo de rechazo (ej: "PAYLOAD_INVALIDO")
+ * @param mensaje Descripción legible del rechazo
+ * @param eventoCrudo Evento recibido tal cual llegó
+ * @param problemas Problemas de validación reportados por Zod, si los hay
+ */
+const rechazarEvento = (
+  tipoError: string,
+  mensaje: string,
+  eventoCrudo: unknown,
+  problemas: ZodIssue[] = []
+): void => {
+  const meta = (eventoCrudo as { meta?: { id?: unknown; tipo?: unknown } } | null)?.meta;
+
+  EventBus.emit('core:errorDetectado', crearEventoBase('core:errorDetectado', {
+    tipoError,
+    mensaje,
+    componente: 'broker',
+    detalles: problemas.map(problema => ({
+      ruta: problema.path.join('.'),
+      mensaje: problema.message
+    })),
+    eventoOriginalId: typeof meta?.id === 'string' ? meta.id : undefined,
+    eventoOriginalTipo: typeof meta?.tipo === 'string' ? meta.tipo : undefined,
+    eventoOriginal: eventoCrudo
+  }, 'corazon', 9));
 };
 
 /**
@@ -81,7 +228,8 @@ export const crearEvento = <T>(params: TipoEvento): TipoEvento & { payload: T }
     },
     payload: params.payload,
     contexto: {
-      dispositivoId: params.contexto.dispositivoId
+      dispositivoId: params.contexto.dispositivoId,
+      destinatario: params.contexto.destinatario
     }
   };
 };
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  iniciarCartasMuertas,
+  entregarConRespaldo,
+  listarCartasMuertas,
+  reintentarCartaMuerta,
+  descartarCartaMuerta
+} from './cartasMuertas';
+import { EventBus, crearEventoBase } from '../utils/helpers';
+import type { CancelarSuscripcion } from '../../core/eventBus';
+
+const suscripciones: CancelarSuscripcion[] = [];
+
+const eventoDePrueba = () => crearEventoBase('core:logGenerado', { mensaje: 'Ticket impreso' });
+
+// Manejador que falla las primeras `fallos` veces
+function manejadorInestable(fallos: number) {
+  return vi.fn(async () => {
+    if (fallos-- > 0) {
+      throw new Error('Impresora ocupada');
+    }
+  });
+}
+
+describe('cartasMuertas', () => {
+  let cerradas: Array<{ resultado: string; intentos: number; motivo?: string }>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    iniciarCartasMuertas({ maxIntentos: 3, esperaBaseMs: 100, esperaMaximaMs: 150, capacidadMaxima: 2 });
+
+    cerradas = [];
+    suscripciones.push(EventBus.on('core:cartaMuertaCerrada', evento => cerradas.push(evento.payload)));
+  });
+
+  afterEach(() => {
+    listarCartasMuertas().forEach(carta => descartarCartaMuerta(carta.id));
+    suscripciones.splice(0).forEach(cancelar => cancelar());
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('reintenta con espera exponencial acotada hasta entregar el evento', async () => {
+    const manejador = manejadorInestable(2);
+
+    await entregarConRespaldo(eventoDePrueba(), manejador);
+    expect(listarCartasMuertas()).toEqual([expect.objectContaining({ intentos: 1, error: 'Error: Impresora ocupada' })]);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(manejador).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(manejador).toHaveBeenCalledTimes(2);
+
+    // 200 ms según la progresión, pero la espera máxima es 150
+    await vi.advanceTimersByTimeAsync(150);
+    expect(manejador).toHaveBeenCalledTimes(3);
+    expect(listarCartasMuertas()).toEqual([]);
+    expect(cerradas).toEqual([expect.objectContaining({ resultado: 'entregada', intentos: 3 })]);
+  });
+
+  it('deja de reintentar al agotar los intentos y admite un reintento manual', async () => {
+    const manejador = manejadorInestable(3);
+    suscripciones.push(EventBus.on('core:logGenerado', manejador));
+
+    await entregarConRespaldo(eventoDePrueba(), manejador);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const [carta] = listarCartasMuertas();
+    expect(carta).toMatchObject({ intentos: 3, proximoReintento: undefined });
+    expect(manejador).toHaveBeenCalledTimes(3);
+
+    expect(reintentarCartaMuerta(carta.id)).toBe(true);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(listarCartasMuertas()).toEqual([]);
+    expect(cerradas).toEqual([expect.objectContaining({ resultado: 'entregada', intentos: 4 })]);
+  });
+
+  it('descarta la carta si el manejador ya no está suscrito al reintentarla a mano', async () => {
+    await entregarConRespaldo(eventoDePrueba(), manejadorInestable(1));
+    const [carta] = listarCartasMuertas();
+
+    expect(reintentarCartaMuerta(carta.id)).toBe(true);
+    expect(cerradas).toEqual([expect.objectContaining({ resultado: 'descartada', motivo: 'El manejador ya no está suscrito' })]);
+  });
+
+  it('sacrifica la carta más antigua con el almacén lleno', async () => {
+    const eventos = [eventoDePrueba(), eventoDePrueba(), eventoDePrueba()];
+
+    for (const evento of eventos) {
+      await entregarConRespaldo(evento, manejadorInestable(1));
+    }
+
+    expect(listarCartasMuertas().map(carta => carta.evento.meta.id)).toEqual([eventos[1].meta.id, eventos[2].meta.id]);
+    expect(cerradas).toEqual([expect.objectContaining({ resultado: 'descartada', motivo: 'Almacén de cartas muertas lleno' })]);
+  });
+});
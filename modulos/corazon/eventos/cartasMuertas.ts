@@ -0,0 +1,280 @@
+/**
+ * cartasMuertas.ts
+ *
+ * Almacén de entregas fallidas ("cartas muertas") del distribuidor.
+ * Cuando un manejador lanza un error al recibir un evento, se guarda una carta por manejador con el error,
+ * la traza, el número de intentos y el evento original, y se reintenta la entrega con espera exponencial.
+ * Las cartas se pueden consultar, reintentar o descartar con la solicitud `core:gestionarCartasMuertas`.
+ */
+
+import { z } from 'zod';
+import { EventBus, crearEventoBase } from '../utils/helpers';
+import { responder } from '../../core/solicitudes';
+import type { ManejadorEvento } from '../../core/eventBus';
+import type { EventoDe } from '../../core/catalogoEventos';
+import type { Evento } from './broker';
+
+// Esquema de configuración (clave "cartasMuertas" en pizzepos.config.json)
+export const ConfigCartasMuertasSchema = z.object({
+  maxIntentos: z.number().int().positive().default(5),
+  esperaBaseMs: z.number().int().positive().default(1000),
+  esperaMaximaMs: z.number().int().positive().default(60000),
+  capacidadMaxima: z.number().int().positive().default(500)
+});
+
+export type ConfigCartasMuertas = z.infer<typeof ConfigCartasMuertasSchema>;
+
+/**
+ * Entrega fallida de un evento a un manejador concreto
+ */
+export interface CartaMuerta {
+  id: string;
+  manejador: string;
+  evento: Evento;
+  error: string;
+  stack?: string;
+  intentos: number;
+  primerFallo: string;
+  ultimoFallo: string;
+  // Instante del próximo reintento automático; ausente cuando se agotaron los intentos
+  proximoReintento?: string;
+}
+
+// Carta junto con lo que no se puede exponer: el manejador y su temporizador
+interface RegistroCarta {
+  carta: CartaMuerta;
+  manejador: ManejadorEvento<Evento>;
+  temporizador?: NodeJS.Timeout;
+}
+
+// Configuración activa
+let configuracion: ConfigCartasMuertas = ConfigCartasMuertasSchema.parse({});
+
+// Cartas por id, en orden de llegada
+const cartas = new Map<string, RegistroCarta>();
+
+/**
+ * Aplica la configuración y atiende las solicitudes de gestión de cartas muertas
+ * @param opciones Configuración parcial (los valores ausentes toman su valor por defecto)
+ */
+export function iniciarCartasMuertas(opciones: unknown = {}): void {
+  configuracion = ConfigCartasMuertasSchema.parse(opciones ?? {});
+
+  EventBus.off('core:gestionarCartasMuertas', gestionarCartasMuertas);
+  EventBus.on('core:gestionarCartasMuertas', gestionarCartasMuertas);
+}
+
+/**
+ * Entrega un evento a un manejador y, si falla (de forma síncrona o asíncrona), lo guarda como carta muerta
+ * @param evento Evento a entregar
+ * @param manejador Manejador destinatario
+ * @returns Promesa que se resuelve cuando el manejador termina (nunca se rechaza: el fallo queda como carta)
+ */
+export function entregarConRespaldo(evento: Evento, manejador: ManejadorEvento<Evento>): Promise<void> {
+  return new Promise((resolver) => {
+    intentarEntrega(evento, manejador, (error) => {
+      registrarFallo(evento, manejador, error);
+      resolver();
+    }, resolver);
+  });
+}
+
+/**
+ * Devuelve una copia de las cartas muertas guardadas
+ */
+export function listarCartasMuertas(): CartaMuerta[] {
+  return Array.from(cartas.values(), ({ carta }) => ({ ...carta }));
+}
+
+/**
+ * Reintenta de inmediato la entrega de una carta, aunque haya agotado sus intentos
+ * @param id Id de la carta
+ * @returns false si la carta no existe
+ */
+export function reintentarCartaMuerta(id: string): boolean {
+  const registro = cartas.get(id);
+
+  if (!registro) {
+    return false;
+  }
+
+  // Si el manejador canceló su suscripción, ya no quiere el evento
+  if (!EventBus.obtenerManejadores(registro.carta.evento.meta.tipo).includes(registro.manejador)) {
+    descartarCartaMuerta(id, 'El manejador ya no está suscrito');
+    return true;
+  }
+
+  reintentar(registro);
+  return true;
+}
+
+/**
+ * Elimina una carta muerta sin volver a entregarla
+ * @param id Id de la carta
+ * @param motivo Razón del descarte
+ * @returns false si la carta no existe
+ */
+export function descartarCartaMuerta(id: string, motivo: string = 'Descartada manualmente'): boolean {
+  const registro = cartas.get(id);
+
+  if (!registro) {
+    return false;
+  }
+
+  clearTimeout(registro.temporizador);
+  cartas.delete(id);
+  emitirEventoCartaCerrada(registro.carta, 'descartada', motivo);
+
+  return true;
+}
+
+/**
+ * Llama al manejador capturando tanto excepciones como promesas rechazadas
+ */
+function intentarEntrega(
+  evento: Evento,
+  manejador: ManejadorEvento<Evento>,
+  alFallar: (error: unknown) => void,
+  alCompletar?: () => void
+): void {
+  try {
+    const resultado: unknown = manejador(evento);
+
+    if (resultado instanceof Promise) {
+      resultado.then(() => alCompletar?.(), alFallar);
+    } else {
+      alCompletar?.();
+    }
+  } catch (error) {
+    alFallar(error);
+  }
+}
+
+/**
+ * Guarda una nueva carta muerta y programa su primer reintento
+ */
+function registrarFallo(evento: Evento, manejador: ManejadorEvento<Evento>, error: unknown): void {
+  const ahora = new Date().toISOString();
+  const carta: CartaMuerta = {
+    id: crypto.randomUUID(),
+    manejador: manejador.name || '(anónimo)',
+    evento,
+    error: String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    intentos: 1,
+    primerFallo: ahora,
+    ultimoFallo: ahora
+  };
+
+  // Con el almacén lleno se sacrifica la carta más antigua
+  if (cartas.size >= configuracion.capacidadMaxima) {
+    const masAntigua = cartas.keys().next().value;
+    if (masAntigua !== undefined) {
+      descartarCartaMuerta(masAntigua, 'Almacén de cartas muertas lleno');
+    }
+  }
+
+  const registro: RegistroCarta = { carta, manejador };
+  cartas.set(carta.id, registro);
+
+  console.error(`Fallo al entregar ${evento.meta.tipo} a ${carta.manejador}:`, error);
+  emitirEventoCartaRegistrada(carta);
+  programarReintento(registro);
+}
+
+/**
+ * Programa el siguiente reintento automático con espera exponencial, si quedan intentos
+ */
+function programarReintento(registro: RegistroCarta): void {
+  if (registro.carta.intentos >= configuracion.maxIntentos) {
+    registro.carta.proximoReintento = undefined;
+    return;
+  }
+
+  const espera = Math.min(
+    configuracion.esperaBaseMs * 2 ** (registro.carta.intentos - 1),
+    configuracion.esperaMaximaMs
+  );
+
+  registro.carta.proximoReintento = new Date(Date.now() + espera).toISOString();
+  registro.temporizador = setTimeout(() => reintentar(registro), espera);
+  registro.temporizador.unref();
+}
+
+/**
+ * Vuelve a entregar el evento de una carta: si funciona se cierra, si no se anota el intento
+ */
+function reintentar(registro: RegistroCarta): void {
+  const { carta } = registro;
+  clearTimeout(registro.temporizador);
+  carta.intentos++;
+
+  intentarEntrega(carta.evento, registro.manejador, (error) => {
+    // Pudo descartarse mientras tanto
+    if (!cartas.has(carta.id)) {
+      return;
+    }
+
+    carta.error = String(error);
+    carta.stack = error instanceof Error ? error.stack : undefined;
+    carta.ultimoFallo = new Date().toISOString();
+    programarReintento(registro);
+  }, () => {
+    if (cartas.delete(carta.id)) {
+      emitirEventoCartaCerrada(carta, 'entregada');
+    }
+  });
+}
+
+/**
+ * Atiende la solicitud de gestión: listar, reintentar o descartar
+ */
+function gestionarCartasMuertas(evento: EventoDe<'core:gestionarCartasMuertas'>): void {
+  const { accion, cartaId } = evento.payload;
+  let encontrada = true;
+
+  if (accion === 'reintentar' && cartaId) {
+    encontrada = reintentarCartaMuerta(cartaId);
+  } else if (accion === 'descartar' && cartaId) {
+    encontrada = descartarCartaMuerta(cartaId);
+  }
+
+  responder(evento, 'core:cartasMuertas', {
+    accion,
+    cartaId,
+    encontrada,
+    cartas: listarCartasMuertas()
+  });
+}
+
+/**
+ * Emite un evento informando de una nueva carta muerta
+ */
+function emitirEventoCartaRegistrada(carta: CartaMuerta): void {
+  const evento = crearEventoBase('core:cartaMuertaRegistrada', {
+    cartaId: carta.id,
+    manejador: carta.manejador,
+    eventoOriginalId: carta.evento.meta.id,
+    eventoOriginalTipo: carta.evento.meta.tipo,
+    error: carta.error
+  }, 'corazon', 8);
+
+  EventBus.emit('core:cartaMuertaRegistrada', evento);
+}
+
+/**
+ * Emite un evento informando que una carta salió del almacén
+ */
+function emitirEventoCartaCerrada(carta: CartaMuerta, resultado: 'entregada' | 'descartada', motivo?: string): void {
+  const evento = crearEventoBase('core:cartaMuertaCerrada', {
+    cartaId: carta.id,
+    manejador: carta.manejador,
+    eventoOriginalId: carta.evento.meta.id,
+    eventoOriginalTipo: carta.evento.meta.tipo,
+    intentos: carta.intentos,
+    resultado,
+    motivo
+  });
+
+  EventBus.emit('core:cartaMuertaCerrada', evento);
+}
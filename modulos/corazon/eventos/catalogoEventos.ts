@@ -0,0 +1,264 @@
+/**
+ * catalogoEventos.ts
+ * 
+ * Declara los eventos propios del módulo corazon ("core:*") junto con el esquema Zod de su payload.
+ * El broker rechaza cualquier evento cuyo tipo no esté en el catálogo o cuyo payload no cumpla el esquema.
+ */
+
+import { z } from 'zod';
+import { EsquemaEvento } from '../../core/eventBus';
+
+// Payload común para todos los errores reportados al sistema
+const ErrorDetectadoSchema = z.object({
+  mensaje: z.string(),
+  error: z.string().optional(),
+  componente: z.string().optional(),
+  modulo: z.string().optional(),
+  critico: z.boolean().optional(),
+  tipoError: z.string().optional(),
+  detalles: z.array(z.object({
+    ruta: z.string(),
+    mensaje: z.string()
+  })).optional(),
+  eventoOriginal: z.unknown().optional(),
+  eventoOriginalId: z.string().optional(),
+  eventoOriginalTipo: z.string().optional(),
+  timestamp: z.string().optional()
+});
+
+export const EventosCorazon = {
+  // Ciclo de vida del sistema
+  'core:listo': z.object({
+    timestamp: z.string(),
+    version: z.string(),
+    modo: z.string()
+  }),
+  'core:reiniciando': z.object({
+    motivo: z.string(),
+    timestamp: z.string()
+  }),
+  'core:reiniciarSistema': z.object({
+    motivo: z.string().optional()
+  }),
+  'core:modoOffline': z.object({
+    motivo: z.string().optional()
+  }),
+  'core:configCargada': z.object({
+    nombre: z.string(),
+    version: z.string(),
+    modulosDisponibles: z.array(z.string()),
+    timestamp: z.string()
+  }),
+  
+  // Monitoreo
+  'core:ping': z.object({}),
+  'core:pong': z.object({
+    timestamp: z.string(),
+    estado: z.string(),
+    modulosActivos: z.number()
+  }),
+  'core:solicitarEstado': z.object({
+    clave: z.string().optional()
+  }),
+  'core:estadoActual': z.object({
+    clave: z.string().optional(),
+    valor: z.unknown()
+  }),
+  // Contadores de cada etapa del broker, en orden de ejecución
+  'core:solicitarMetricas': z.object({}),
+  'core:metricasBroker': z.object({
+    etapas: z.array(z.object({
+      nombre: z.string(),
+      interno: z.boolean(),
+      ejecuciones: z.number(),
+      rechazos: z.number(),
+      detenciones: z.number(),
+      errores: z.number(),
+      tiempoTotalMs: z.number(),
+      tiempoMaximoMs: z.number()
+    }))
+  }),
+  'core:logGenerado': z.object({
+    mensaje: z.string(),
+    nivel: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+    datos: z.unknown().optional()
+  }),
+  'core:errorDetectado': ErrorDetectadoSchema,
+  
+  // Estado y dispositivos
+  'core:estadoModificado': z.object({
+    clave: z.string(),
+    valor: z.unknown(),
+    origenCambio: z.string()
+  }),
+  'core:estadoReseteado': z.object({
+    nuevoEstado: z.record(z.any())
+  }),
+  'core:dispositivosCargados': z.object({
+    cantidadDispositivos: z.number().int(),
+    dispositivosActivos: z.number().int()
+  }),
+  'core:llaveRevocada': z.object({
+    dispositivoId: z.string(),
+    motivo: z.string()
+  }),
+  // Canal interno corazon -> microservidor: lleva la llave nueva para entregarla por el socket
+  'core:llaveRotada': z.object({
+    dispositivoId: z.string(),
+    llave: z.string(),
+    expiraEn: z.string(),
+    llaveAnteriorExpiraEn: z.string()
+  }),
+  
+  // Broker: estos canales transportan el evento original completo
+  'core:procesarEvento': z.record(z.any()),
+  'core:eventoRecibido': z.record(z.any()),
+  'core:eventoDistribuido': z.object({
+    eventoOriginalId: z.string(),
+    eventoOriginalTipo: z.string(),
+    eventoOriginalOrigen: z.string(),
+    timestampDistribucion: z.string(),
+    eventoOriginal: EsquemaEvento
+  }),
+  
+  // Cola de prioridad del broker
+  'core:metricasCola': z.object({
+    profundidad: z.number().int(),
+    capacidad: z.number().int(),
+    enProceso: z.number().int(),
+    procesados: z.number().int(),
+    descartados: z.number().int(),
+    umbral: z.number(),
+    direccion: z.enum(['subida', 'bajada']),
+    timestamp: z.string()
+  }),
+  'core:eventoDescartado': z.object({
+    eventoOriginalId: z.string(),
+    eventoOriginalTipo: z.string(),
+    prioridad: z.number(),
+    motivo: z.string(),
+    profundidad: z.number().int()
+  }),
+
+  'core:eventoDuplicado': z.object({
+    eventoOriginalId: z.string(),
+    eventoOriginalTipo: z.string(),
+    dispositivoId: z.string(),
+    primeraRecepcion: z.string()
+  }),
+
+  // Auditoría de la política de roles (broker al recibir, microservidor al enviar o al suscribir)
+  'core:accesoDenegado': z.object({
+    dispositivoId: z.string(),
+    rol: z.string(),
+    // En las suscripciones, el patrón solicitado
+    tipoEvento: z.string(),
+    direccion: z.enum(['emitir', 'recibir', 'suscribir']),
+    eventoOriginalId: z.string().optional(),
+    componente: z.string()
+  }),
+
+  // Entregas fallidas (cartas muertas)
+  'core:cartaMuertaRegistrada': z.object({
+    cartaId: z.string(),
+    manejador: z.string(),
+    eventoOriginalId: z.string(),
+    eventoOriginalTipo: z.string(),
+    error: z.string()
+  }),
+  'core:cartaMuertaCerrada': z.object({
+    cartaId: z.string(),
+    manejador: z.string(),
+    eventoOriginalId: z.string(),
+    eventoOriginalTipo: z.string(),
+    intentos: z.number().int(),
+    resultado: z.enum(['entregada', 'descartada']),
+    motivo: z.string().optional()
+  }),
+  'core:gestionarCartasMuertas': z.object({
+    accion: z.enum(['listar', 'reintentar', 'descartar']),
+    cartaId: z.string().optional()
+  }),
+  'core:cartasMuertas': z.object({
+    accion: z.enum(['listar', 'reintentar', 'descartar']),
+    cartaId: z.string().optional(),
+    encontrada: z.boolean(),
+    cartas: z.array(z.object({
+      id: z.string(),
+      manejador: z.string(),
+      evento: EsquemaEvento,
+      error: z.string(),
+      stack: z.string().optional(),
+      intentos: z.number().int(),
+      primerFallo: z.string(),
+      ultimoFallo: z.string(),
+      proximoReintento: z.string().optional()
+    }))
+  }),
+
+  // Emparejamiento de dispositivos nuevos
+  'core:habilitarEmparejamiento': z.object({
+    duracionMinutos: z.number().int().positive(),
+    rol: z.string().optional()
+  }),
+  'core:emparejamientoHabilitado': z.object({
+    codigo: z.string(),
+    rol: z.string(),
+    expiraEn: z.string()
+  }),
+  // Canal interno microservidor -> corazon; la resolución lleva la llave y nunca sale del servidor
+  'core:solicitarEmparejamiento': z.object({
+    conexionId: z.string(),
+    dispositivoId: z.string(),
+    codigo: z.string()
+  }),
+  'core:emparejamientoResuelto': z.object({
+    conexionId: z.string(),
+    dispositivoId: z.string(),
+    aceptado: z.boolean(),
+    llave: z.string().optional(),
+    motivo: z.string().optional()
+  }),
+  'core:dispositivoRegistrado': z.object({
+    dispositivoId: z.string(),
+    rol: z.string(),
+    habilitadoPor: z.string(),
+    fecha: z.string()
+  }),
+
+  // Diario de eventos
+  'core:diarioReproducido': z.object({
+    archivosLeidos: z.number().int(),
+    eventosAplicados: z.number().int(),
+    lineasInvalidas: z.number().int(),
+    desde: z.string().optional(),
+    desdeId: z.string().optional(),
+    timestamp: z.string()
+  })
+};
+
+/**
+ * Solicitudes que atiende el corazon: tipo de la solicitud -> tipo de su respuesta.
+ * La respuesta lleva el mismo `meta.correlacionId` que la solicitud y va dirigida a quien la hizo.
+ */
+export const SolicitudesCorazon = {
+  'core:ping': 'core:pong',
+  'core:solicitarEstado': 'core:estadoActual',
+  'core:solicitarMetricas': 'core:metricasBroker',
+  'core:gestionarCartasMuertas': 'core:cartasMuertas',
+  'core:habilitarEmparejamiento': 'core:emparejamientoHabilitado'
+} as const;
+
+// Eventos del corazon que también puede emitir un dispositivo: órdenes, solicitudes y sus propios logs y errores
+const EventosDeDispositivoCorazon: string[] = [
+  'core:reiniciarSistema',
+  'core:modoOffline',
+  'core:logGenerado',
+  'core:errorDetectado',
+  ...Object.keys(SolicitudesCorazon)
+];
+
+/**
+ * Eventos del corazon que solo emite el servidor (notificaciones, respuestas y canales internos)
+ */
+export const EventosInternosCorazon = Object.keys(EventosCorazon).filter(tipo => !EventosDeDispositivoCorazon.includes(tipo));
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { configurarCola, encolarEvento, obtenerMetricasCola } from './colaEventos';
+import { EventBus } from '../utils/helpers';
+import type { CancelarSuscripcion } from '../../core/eventBus';
+import type { Evento } from './broker';
+
+const suscripciones: CancelarSuscripcion[] = [];
+
+function eventoConPrioridad(prioridad: number, mensaje = String(prioridad)): Evento {
+  return {
+    meta: { id: randomUUID(), timestamp: new Date().toISOString(), tipo: 'core:logGenerado', origen: 'terminal', prioridad },
+    payload: { mensaje },
+    contexto: { dispositivoId: 'terminal-01' }
+  };
+}
+
+function escuchar(manejador: (evento: Evento) => unknown): void {
+  suscripciones.push(EventBus.on('core:logGenerado', manejador as (evento: Evento) => void));
+}
+
+describe('colaEventos', () => {
+  afterEach(() => {
+    suscripciones.splice(0).forEach(cancelar => cancelar());
+    vi.restoreAllMocks();
+  });
+
+  it('distribuye primero los eventos de mayor prioridad y, a igual prioridad, por orden de llegada', async () => {
+    configurarCola({ concurrencia: 1 });
+    const recibidos: string[] = [];
+    escuchar(evento => recibidos.push(evento.payload.mensaje));
+
+    encolarEvento(eventoConPrioridad(1, 'baja'));
+    encolarEvento(eventoConPrioridad(9, 'urgente'));
+    encolarEvento(eventoConPrioridad(5, 'normal-1'));
+    encolarEvento(eventoConPrioridad(5, 'normal-2'));
+
+    await vi.waitFor(() => expect(recibidos).toHaveLength(4));
+    expect(recibidos).toEqual(['urgente', 'normal-1', 'normal-2', 'baja']);
+  });
+
+  it('no tiene más eventos en distribución que la concurrencia configurada', async () => {
+    configurarCola({ concurrencia: 2 });
+    const pendientes: Array<() => void> = [];
+    let terminados = 0;
+    escuchar(() => new Promise<void>(resolver => pendientes.push(() => {
+      terminados++;
+      resolver();
+    })));
+
+    for (let i = 0; i < 5; i++) {
+      encolarEvento(eventoConPrioridad(5));
+    }
+
+    await vi.waitFor(() => expect(pendientes).toHaveLength(2));
+    await new Promise(resolver => setImmediate(resolver));
+    expect(pendientes).toHaveLength(2);
+    expect(obtenerMetricasCola()).toMatchObject({ enProceso: 2, profundidad: 3 });
+
+    // Al terminar un manejador, su trabajador toma el siguiente evento
+    pendientes[0]();
+    await vi.waitFor(() => expect(pendientes).toHaveLength(3));
+
+    pendientes.slice(1).forEach(terminar => terminar());
+    await vi.waitFor(() => expect(pendientes).toHaveLength(5));
+    pendientes.slice(3).forEach(terminar => terminar());
+    await vi.waitFor(() => expect(obtenerMetricasCola().enProceso).toBe(0));
+    expect(terminados).toBe(5);
+  });
+
+  it('sigue con el siguiente evento aunque falle también la notificación del error', async () => {
+    configurarCola({ concurrencia: 1 });
+    const consola = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const recibidos: string[] = [];
+
+    escuchar((evento) => {
+      if (evento.payload.mensaje === 'roto') {
+        throw new Error('Manejador roto');
+      }
+      recibidos.push(evento.payload.mensaje);
+    });
+    suscripciones.push(EventBus.on('core:cartaMuertaRegistrada', () => {
+      throw new Error('Listener de cartas roto');
+    }));
+    suscripciones.push(EventBus.on('core:errorDetectado', () => {
+      throw new Error('Listener de errores roto');
+    }));
+
+    const { procesados } = obtenerMetricasCola();
+    encolarEvento(eventoConPrioridad(5, 'roto'));
+    encolarEvento(eventoConPrioridad(5, 'sano'));
+
+    await vi.waitFor(() => expect(obtenerMetricasCola().procesados).toBe(procesados + 2));
+    expect(recibidos).toEqual(['sano']);
+    expect(consola).toHaveBeenCalledWith('Error al distribuir core:logGenerado:', expect.anything(), expect.anything());
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * colaEventos.ts
+ *
+ * Cola de prioridad acotada entre el broker y el distribuidor.
+ * Los eventos aceptados por el broker se encolan según `meta.prioridad` (mayor primero, FIFO a igual prioridad)
+ * y se distribuyen con una concurrencia configurable, cediendo el hilo entre eventos: cada trabajador
+ * espera a que terminen los manejadores de su evento (también los asíncronos) antes de tomar el siguiente.
+ * Aplica contrapresión cuando la cola se llena y emite métricas al cruzar umbrales de profundidad.
+ */
+
+import { z } from 'zod';
+import { EventBus, crearEventoBase } from '../utils/helpers';
+import { distribuirEvento } from './distribuidor';
+import type { Evento } from './broker';
+
+// Esquema de configuración de la cola (clave "colaEventos" en pizzepos.config.json)
+export const ConfigColaSchema = z.object({
+  capacidadMaxima: z.number().int().positive().default(1000),
+  concurrencia: z.number().int().positive().default(4),
+  umbralesAlerta: z.array(z.number().gt(0).max(1)).default([0.5, 0.8, 1])
+});
+
+export type ConfigCola = z.infer<typeof ConfigColaSchema>;
+
+// Elemento interno de la cola
+interface ElementoCola {
+  evento: Evento;
+  secuencia: number;
+}
+
+// Configuración activa
+let configuracion: ConfigCola = ConfigColaSchema.parse({});
+
+// Montículo binario: la raíz es siempre el evento más prioritario
+const monticulo: ElementoCola[] = [];
+
+// Contadores de la cola
+let secuencia = 0;
+let enProceso = 0;
+let procesados = 0;
+let descartados = 0;
+
+// Último umbral superado (índice en umbralesAlerta, -1 si ninguno)
+let nivelUmbral = -1;
+
+/**
+ * Aplica la configuración de la cola. Los valores ausentes toman su valor por defecto.
+ * @param opciones Configuración parcial
+ */
+export function configurarCola(opciones: unknown = {}): void {
+  configuracion = ConfigColaSchema.parse(opciones ?? {});
+  configuracion.umbralesAlerta.sort((a, b) => a - b);
+  nivelUmbral = calcularNivelUmbral();
+}
+
+/**
+ * Encola un evento ya validado para su distribución
+ * Si la cola está llena, se descarta el evento menos prioritario (el nuevo o el peor encolado)
+ * @param evento Evento validado por el broker
+ * @returns true si el evento quedó encolado, false si fue descartado por contrapresión
+ */
+export function encolarEvento(evento: Evento): boolean {
+  if (monticulo.length >= configuracion.capacidadMaxima) {
+    const indicePeor = buscarIndiceMenosPrioritario();
+    const peor = monticulo[indicePeor];
+
+    if (!peor || peor.evento.meta.prioridad >= evento.meta.prioridad) {
+      emitirEventoDescartado(evento, 'Cola llena');
+      return false;
+    }
+
+    // El nuevo evento es más prioritario: se expulsa el peor encolado
+    eliminarEn(indicePeor);
+    emitirEventoDescartado(peor.evento, 'Desplazado por un evento de mayor prioridad');
+  }
+
+  insertar({ evento, secuencia: secuencia++ });
+  revisarUmbrales();
+  programarDespacho();
+
+  return true;
+}
+
+/**
+ * Devuelve el estado actual de la cola
+ * @returns Métricas de profundidad y contadores
+ */
+export function obtenerMetricasCola(): {
+  profundidad: number;
+  capacidad: number;
+  enProceso: number;
+  procesados: number;
+  descartados: number;
+} {
+  return {
+    profundidad: monticulo.length,
+    capacidad: configuracion.capacidadMaxima,
+    enProceso,
+    procesados,
+    descartados
+  };
+}
+
+/**
+ * Lanza trabajadores hasta alcanzar la concurrencia configurada
+ */
+function programarDespacho(): void {
+  while (enProceso < configuracion.concurrencia && monticulo.length > 0) {
+    enProceso++;
+    setImmediate(trabajar);
+  }
+}
+
+/**
+ * Trabajador: distribuye el evento más prioritario, espera a sus manejadores y cede el hilo antes del siguiente,
+ * de modo que un evento urgente que llegue mientras tanto pase delante del resto.
+ * Si la distribución falla, lo notifica y sigue con el siguiente evento.
+ */
+async function trabajar(): Promise<void> {
+  const elemento = extraer();
+
+  if (!elemento) {
+    enProceso--;
+    return;
+  }
+
+  try {
+    await distribuirEvento(elemento.evento);
+  } catch (error) {
+    // El distribuidor notifica sus propios fallos; aquí llega lo que se le escapa
+    // (p. ej. un listener que falla al recibir esa notificación) y no debe parar al trabajador
+    emitirEventoError(elemento.evento, error);
+  }
+
+  procesados++;
+  revisarUmbrales();
+
+  if (monticulo.length > 0) {
+    setImmediate(trabajar);
+  } else {
+    enProceso--;
+  }
+}
+
+/**
+ * Indica si a tiene prioridad sobre b (mayor prioridad primero, luego orden de llegada)
+ */
+function antesQue(a: ElementoCola, b: ElementoCola): boolean {
+  if (a.evento.meta.prioridad !== b.evento.meta.prioridad) {
+    return a.evento.meta.prioridad > b.evento.meta.prioridad;
+  }
+  return a.secuencia < b.secuencia;
+}
+
+/**
+ * Inserta un elemento en el montículo
+ */
+function insertar(elemento: ElementoCola): void {
+  monticulo.push(elemento);
+  subir(monticulo.length - 1);
+}
+
+/**
+ * Extrae el elemento más prioritario del montículo
+ */
+function extraer(): ElementoCola | undefined {
+  if (monticulo.length === 0) {
+    return undefined;
+  }
+  return eliminarEn(0);
+}
+
+/**
+ * Elimina el elemento en una posición cualquiera del montículo
+ */
+function eliminarEn(indice: number): ElementoCola {
+  const eliminado = monticulo[indice];
+  const ultimo = monticulo.pop() as ElementoCola;
+
+  if (indice < monticulo.length) {
+    monticulo[indice] = ultimo;
+    subir(indice);
+    bajar(indice);
+  }
+
+  return eliminado;
+}
+
+/**
+ * Busca el elemento menos prioritario (siempre está entre las hojas del montículo)
+ */
+function buscarIndiceMenosPrioritario(): number {
+  let indicePeor = Math.floor(monticulo.length / 2);
+
+  for (let i = indicePeor + 1; i < monticulo.length; i++) {
+    if (antesQue(monticulo[indicePeor], monticulo[i])) {
+      indicePeor = i;
+    }
+  }
+
+  return indicePeor;
+}
+
+/**
+ * Reubica hacia la raíz un elemento que ganó prioridad respecto a su padre
+ */
+function subir(indice: number): void {
+  while (indice > 0) {
+    const padre = Math.floor((indice - 1) / 2);
+    if (!antesQue(monticulo[indice], monticulo[padre])) {
+      break;
+    }
+    [monticulo[indice], monticulo[padre]] = [monticulo[padre], monticulo[indice]];
+    indice = padre;
+  }
+}
+
+/**
+ * Reubica hacia las hojas un elemento que perdió prioridad respecto a sus hijos
+ */
+function bajar(indice: number): void {
+  for (;;) {
+    const izquierdo = indice * 2 + 1;
+    const derecho = izquierdo + 1;
+    let mejor = indice;
+
+    if (izquierdo < monticulo.length && antesQue(monticulo[izquierdo], monticulo[mejor])) {
+      mejor = izquierdo;
+    }
+    if (derecho < monticulo.length && antesQue(monticulo[derecho], monticulo[mejor])) {
+      mejor = derecho;
+    }
+    if (mejor === indice) {
+      return;
+    }
+
+    [monticulo[indice], monticulo[mejor]] = [monticulo[mejor], monticulo[indice]];
+    indice = mejor;
+  }
+}
+
+/**
+ * Calcula el índice del mayor umbral superado por la profundidad actual
+ */
+function calcularNivelUmbral(): number {
+  const ocupacion = monticulo.length / configuracion.capacidadMaxima;
+  let nivel = -1;
+
+  configuracion.umbralesAlerta.forEach((umbral, indice) => {
+    if (ocupacion >= umbral) {
+      nivel = indice;
+    }
+  });
+
+  return nivel;
+}
+
+/**
+ * Emite métricas si la profundidad cruzó algún umbral desde la última revisión
+ */
+function revisarUmbrales(): void {
+  const nuevoNivel = calcularNivelUmbral();
+
+  if (nuevoNivel === nivelUmbral) {
+    return;
+  }
+
+  const direccion = nuevoNivel > nivelUmbral ? 'subida' : 'bajada';
+  const umbral = direccion === 'subida'
+    ? configuracion.umbralesAlerta[nuevoNivel]
+    : configuracion.umbralesAlerta[nivelUmbral];
+
+  nivelUmbral = nuevoNivel;
+
+  const evento = crearEventoBase('core:metricasCola', {
+    ...obtenerMetricasCola(),
+    umbral,
+    direccion,
+    timestamp: new Date().toISOString()
+  }, 'corazon', direccion === 'subida' ? 7 : 4);
+
+  EventBus.emit('core:metricasCola', evento);
+}
+
+/**
+ * Emite un evento informando que un evento fue descartado por contrapresión
+ * @param evento Evento descartado
+ * @param motivo Razón del descarte
+ */
+function emitirEventoDescartado(evento: Evento, motivo: string): void {
+  descartados++;
+
+  const eventoDescartado = crearEventoBase('core:eventoDescartado', {
+    eventoOriginalId: evento.meta.id,
+    eventoOriginalTipo: evento.meta.tipo,
+    prioridad: evento.meta.prioridad,
+    motivo,
+    profundidad: monticulo.length
+  }, 'corazon', 8);
+
+  EventBus.emit('core:eventoDescartado', eventoDescartado);
+}
+
+/**
+ * Emite un evento de error cuando no se pudo distribuir un evento de la cola
+ * @param evento Evento que se estaba distribuyendo
+ * @param error Error producido
+ */
+function emitirEventoError(evento: Evento, error: unknown): void {
+  const eventoError = crearEventoBase('core:errorDetectado', {
+    mensaje: `Error al distribuir ${evento.meta.tipo}`,
+    error: error instanceof Error ? error.message : String(error),
+    componente: 'colaEventos',
+    critico: false,
+    eventoOriginalId: evento.meta.id,
+    eventoOriginalTipo: evento.meta.tipo
+  }, 'corazon', 8);
+
+  try {
+    EventBus.emit('core:errorDetectado', eventoError);
+  } catch (errorNotificacion) {
+    // Si falla la propia notificación, al menos queda en consola
+    console.error(`Error al distribuir ${evento.meta.tipo}:`, error, errorNotificacion);
+  }
+}
@@ -0,0 +1,79 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { iniciarDeduplicador, reservarId, liberarId, vaciarDeduplicador } from './deduplicador';
+import { iniciarDiario, registrarEnDiario, esperarDiario } from './diarioEventos';
+
+let directorio: string;
+
+describe('deduplicador', () => {
+  beforeAll(async () => {
+    directorio = await mkdtemp(path.join(tmpdir(), 'deduplicador-'));
+    await iniciarDiario({ directorio, reproducirAlIniciar: false });
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T10:00:00.000Z'));
+    vaciarDeduplicador();
+    await iniciarDeduplicador({ ventanaMs: 60_000, maxIds: 3 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(async () => {
+    await rm(directorio, { recursive: true, force: true });
+  });
+
+  it('anota un id nuevo al comprobarlo y lo detecta como duplicado después', () => {
+    const id = randomUUID();
+
+    expect(reservarId(id)).toBeUndefined();
+    vi.advanceTimersByTime(5_000);
+    expect(reservarId(id)).toBe(Date.parse('2025-01-01T10:00:00.000Z'));
+  });
+
+  it('olvida los ids que salen de la ventana de tiempo', () => {
+    const id = randomUUID();
+    reservarId(id);
+
+    vi.advanceTimersByTime(60_001);
+    expect(reservarId(id)).toBeUndefined();
+  });
+
+  it('olvida los ids más antiguos al superar el máximo', () => {
+    const ids = [randomUUID(), randomUUID(), randomUUID(), randomUUID()];
+    ids.forEach(reservarId);
+
+    expect(reservarId(ids[0])).toBeUndefined();
+    expect(reservarId(ids[3])).toBeDefined();
+  });
+
+  it('un id liberado vuelve a contar como nuevo', () => {
+    const id = randomUUID();
+    reservarId(id);
+    liberarId(id);
+
+    expect(reservarId(id)).toBeUndefined();
+  });
+
+  it('recupera del diario los ids aceptados dentro de la ventana', async () => {
+    const id = randomUUID();
+    registrarEnDiario({
+      meta: { id, timestamp: new Date().toISOString(), tipo: 'core:logGenerado', origen: 'terminal', prioridad: 5 },
+      payload: { mensaje: 'antes del reinicio' },
+      contexto: { dispositivoId: 'terminal-01' }
+    });
+    await esperarDiario();
+
+    vaciarDeduplicador();
+    vi.advanceTimersByTime(30_000);
+    await iniciarDeduplicador({ ventanaMs: 60_000, maxIds: 3 });
+
+    expect(reservarId(id)).toBe(Date.parse('2025-01-01T10:00:00.000Z'));
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * deduplicador.ts
+ *
+ * Ventana de ids de evento (`meta.id`) vistos recientemente por el broker.
+ * Un dispositivo con WiFi inestable puede reenviar el mismo evento; si su id sigue en la ventana,
+ * el broker lo descarta en lugar de distribuirlo dos veces.
+ * La ventana se acota por tiempo y por número de ids, y se restaura desde el diario de eventos al iniciar.
+ */
+
+import { z } from 'zod';
+import { recorrerDiario } from './diarioEventos';
+
+// Esquema de configuración de la ventana (clave "deduplicacion" en pizzepos.config.json)
+export const ConfigDeduplicacionSchema = z.object({
+  ventanaMs: z.number().int().positive().default(600000),
+  maxIds: z.number().int().positive().default(5000)
+});
+
+export type ConfigDeduplicacion = z.infer<typeof ConfigDeduplicacionSchema>;
+
+// Configuración activa
+let configuracion: ConfigDeduplicacion = ConfigDeduplicacionSchema.parse({});
+
+// id de evento -> instante (ms) de su primera recepción; el orden de inserción es el cronológico
+const idsVistos = new Map<string, number>();
+
+/**
+ * Aplica la configuración de la ventana y la rellena con los ids que el diario registró dentro de ella.
+ * @param opciones Configuración parcial (los valores ausentes toman su valor por defecto)
+ */
+export async function iniciarDeduplicador(opciones: unknown = {}): Promise<void> {
+  configuracion = ConfigDeduplicacionSchema.parse(opciones ?? {});
+
+  await recorrerDiario(new Date(Date.now() - configuracion.ventanaMs), (entrada) => {
+    marcarVisto(entrada.evento.meta.id, Date.parse(entrada.registradoEn));
+  });
+
+  purgar(Date.now());
+}
+
+/**
+ * Comprueba si un id ya se vio dentro de la ventana y, si es nuevo, lo anota en el mismo paso,
+ * de modo que dos copias del mismo evento no puedan pasar a la vez aunque su procesamiento se solape
+ * @param id Id del evento (`meta.id`)
+ * @returns Instante (ms) de la primera recepción si es un duplicado, o undefined si el id es nuevo (y queda anotado)
+ */
+export function reservarId(id: string): number | undefined {
+  purgar(Date.now());
+
+  const primeraRecepcion = idsVistos.get(id);
+
+  if (primeraRecepcion === undefined) {
+    marcarVisto(id);
+  }
+
+  return primeraRecepcion;
+}
+
+/**
+ * Quita de la ventana un id reservado cuyo evento no llegó a aceptarse, para que un reenvío se procese
+ * @param id Id del evento (`meta.id`)
+ */
+export function liberarId(id: string): void {
+  idsVistos.delete(id);
+}
+
+/**
+ * Anota un id aceptado en la ventana
+ * @param id Id del evento (`meta.id`)
+ * @param instante Momento de la recepción en ms (default: ahora)
+ */
+function marcarVisto(id: string, instante: number = Date.now()): void {
+  if (!idsVistos.has(id)) {
+    idsVistos.set(id, instante);
+  }
+
+  purgar(instante);
+}
+
+/**
+ * Vacía la ventana de ids vistos
+ */
+export function vaciarDeduplicador(): void {
+  idsVistos.clear();
+}
+
+/**
+ * Elimina los ids más antiguos que superan la ventana de tiempo o el máximo de ids
+ */
+function purgar(ahora: number): void {
+  const limite = ahora - configuracion.ventanaMs;
+
+  for (const [id, instante] of idsVistos) {
+    if (instante >= limite && idsVistos.size <= configuracion.maxIds) {
+      break;
+    }
+    idsVistos.delete(id);
+  }
+}
@@ -0,0 +1,119 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readdir, appendFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { iniciarDiario, registrarEnDiario, reproducirDiario, esperarDiario } from './diarioEventos';
+import { registrarAplicadorEstado, getEstadoPorClave, setEstadoPorClave, resetEstado } from '../estado/estado';
+import { EventBus } from '../utils/helpers';
+import type { Evento } from './broker';
+
+let directorio: string;
+
+function eventoDePrueba(valor: number): Evento {
+  return {
+    meta: { id: randomUUID(), timestamp: new Date().toISOString(), tipo: 'prueba:valor', origen: 'prueba', prioridad: 5 },
+    payload: { valor },
+    contexto: { dispositivoId: 'terminal-01' }
+  };
+}
+
+describe('diarioEventos', () => {
+  beforeAll(() => {
+    // Cada evento anexa su valor a "prueba.valores"
+    registrarAplicadorEstado('prueba:valor', (evento) => {
+      setEstadoPorClave('prueba.valores', [...(getEstadoPorClave('prueba.valores') ?? []), evento.payload.valor], 'prueba');
+    });
+  });
+
+  beforeEach(async () => {
+    directorio = await mkdtemp(path.join(tmpdir(), 'diario-'));
+    await iniciarDiario({ directorio, reproducirAlIniciar: false });
+    resetEstado();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await esperarDiario();
+    await rm(directorio, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    resetEstado();
+  });
+
+  it('rota el archivo cada día y reproduce los días en orden', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 0, 1, 23, 59));
+    registrarEnDiario(eventoDePrueba(1));
+    vi.setSystemTime(new Date(2025, 0, 2, 0, 1));
+    registrarEnDiario(eventoDePrueba(2));
+    registrarEnDiario(eventoDePrueba(3));
+    await esperarDiario();
+
+    expect((await readdir(directorio)).sort()).toEqual(['eventos-2025-01-01.jsonl', 'eventos-2025-01-02.jsonl']);
+
+    const resultado = await reproducirDiario();
+
+    expect(resultado).toEqual({ archivosLeidos: 2, eventosAplicados: 3, lineasInvalidas: 0 });
+    expect(getEstadoPorClave('prueba.valores')).toEqual([1, 2, 3]);
+  });
+
+  it('reconstruye en un estado vacío lo mismo que se aplicó en vivo', async () => {
+    for (const valor of [1, 2, 3]) {
+      registrarEnDiario(eventoDePrueba(valor));
+    }
+    setEstadoPorClave('prueba.valores', [1, 2, 3], 'prueba');
+    const enVivo = getEstadoPorClave('prueba.valores');
+
+    resetEstado();
+    expect(getEstadoPorClave('prueba.valores')).toBeUndefined();
+
+    await reproducirDiario();
+    expect(getEstadoPorClave('prueba.valores')).toEqual(enVivo);
+  });
+
+  it('reproduce desde un id de evento, incluido', async () => {
+    const eventos = [1, 2, 3].map(eventoDePrueba);
+    eventos.forEach(registrarEnDiario);
+
+    const resultado = await reproducirDiario({ desdeId: eventos[1].meta.id });
+
+    expect(resultado?.eventosAplicados).toBe(2);
+    expect(getEstadoPorClave('prueba.valores')).toEqual([2, 3]);
+  });
+
+  it('no toca el estado ni informa éxito si desdeId no está en el diario', async () => {
+    registrarEnDiario(eventoDePrueba(1));
+    setEstadoPorClave('prueba.valores', [9], 'prueba');
+
+    const reproducciones = vi.fn();
+    const errores = vi.fn();
+    const cancelarReproducido = EventBus.on('core:diarioReproducido', reproducciones);
+    const cancelarError = EventBus.on('core:errorDetectado', errores);
+
+    const resultado = await reproducirDiario({ desdeId: randomUUID() });
+    cancelarReproducido();
+    cancelarError();
+
+    expect(resultado).toBeNull();
+    expect(getEstadoPorClave('prueba.valores')).toEqual([9]);
+    expect(reproducciones).not.toHaveBeenCalled();
+    expect(errores).toHaveBeenCalledWith(expect.objectContaining({
+      payload: expect.objectContaining({ componente: 'diarioEventos' })
+    }));
+  });
+
+  it('descarta una última línea truncada y sigue reproduciendo', async () => {
+    registrarEnDiario(eventoDePrueba(1));
+    await esperarDiario();
+
+    const [archivo] = await readdir(directorio);
+    await appendFile(path.join(directorio, archivo), '{"registradoEn":"2025-01-0');
+
+    const resultado = await reproducirDiario();
+
+    expect(resultado?.lineasInvalidas).toBe(1);
+    expect(getEstadoPorClave('prueba.valores')).toEqual([1]);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * diarioEventos.ts
+ *
+ * Diario de solo anexado de los eventos aceptados por el broker.
+ * Cada evento se escribe como una línea JSON (JSON Lines) a través del módulo de almacenamiento,
+ * en un archivo por día (eventos-AAAA-MM-DD.jsonl), de modo que el diario rota a diario.
+ * La reproducción reconstruye el estado reaplicando los eventos desde un instante o un id de evento,
+ * actualizados antes a la versión actual de su esquema con los mismos upcasters que usa el broker.
+ * Solo se reconstruye lo que cambian los aplicadores de estado (ver estado/aplicadores.ts).
+ * Al iniciar se reaplican las últimas `horasReproduccion` horas; un `core:reiniciarSistema` dentro de ese
+ * periodo vacía el estado, así que en la práctica cuenta lo ocurrido desde el último reinicio.
+ */
+
+import path from 'path';
+import { z } from 'zod';
+import { format, subHours } from 'date-fns';
+import { agregarLinea, leerArchivo, listarArchivos, existeArchivo } from '../../almacenamiento/utils/gestorArchivos';
+import { aplicarEventoAEstado, resetEstado } from '../estado/estado';
+import { EventBus, crearEventoBase } from '../utils/helpers';
+import { EsquemaEvento } from '../../core/eventBus';
+import { actualizarEvento } from '../../core/versionesEventos';
+import type { Evento } from './broker';
+
+// Esquema de configuración del diario (clave "diarioEventos" en pizzepos.config.json)
+export const ConfigDiarioSchema = z.object({
+  habilitado: z.boolean().default(true),
+  directorio: z.string().default('diario'),
+  reproducirAlIniciar: z.boolean().default(true),
+  // Horas de diario que se reaplican al iniciar
+  horasReproduccion: z.number().positive().default(24)
+});
+
+export type ConfigDiario = z.infer<typeof ConfigDiarioSchema>;
+
+// Estructura de cada línea del diario
+const EntradaDiarioSchema = z.object({
+  registradoEn: z.string().datetime(),
+  evento: EsquemaEvento
+});
+
+export type EntradaDiario = z.infer<typeof EntradaDiarioSchema>;
+
+/**
+ * Punto de partida de una reproducción. Sin `desde` ni `desdeId` se reproduce el diario completo.
+ */
+export interface OpcionesReproduccion {
+  // Instante (según la hora de registro en el diario) a partir del cual se aplican eventos
+  desde?: string | Date;
+  // Id de evento a partir del cual (incluido) se aplican eventos
+  desdeId?: string;
+  // Si es true (por defecto) se reinicia el estado antes de reaplicar
+  reiniciarEstado?: boolean;
+}
+
+/**
+ * Resultado de una reproducción del diario
+ */
+export interface ResultadoReproduccion {
+  archivosLeidos: number;
+  eventosAplicados: number;
+  lineasInvalidas: number;
+}
+
+// Prefijo y extensión de los archivos del diario
+const PREFIJO_ARCHIVO = 'eventos-';
+const EXTENSION_ARCHIVO = '.jsonl';
+
+// Configuración activa
+let configuracion: ConfigDiario = ConfigDiarioSchema.parse({});
+
+// Cadena de escrituras pendientes: garantiza que las líneas se anexan en orden de aceptación
+let escrituras: Promise<unknown> = Promise.resolve();
+
+/**
+ * Aplica la configuración del diario y, si corresponde, reconstruye el estado con las últimas `horasReproduccion` horas.
+ * @param opciones Configuración parcial (los valores ausentes toman su valor por defecto)
+ */
+export async function iniciarDiario(opciones: unknown = {}): Promise<void> {
+  configuracion = ConfigDiarioSchema.parse(opciones ?? {});
+
+  if (configuracion.habilitado && configuracion.reproducirAlIniciar) {
+    await reproducirDiario({ desde: subHours(new Date(), configuracion.horasReproduccion), reiniciarEstado: false });
+  }
+}
+
+/**
+ * Anexa un evento aceptado al archivo del día. No bloquea: la escritura queda encadenada.
+ * @param evento Evento validado por el broker
+ */
+export function registrarEnDiario(evento: Evento): void {
+  if (!configuracion.habilitado) {
+    return;
+  }
+
+  const ahora = new Date();
+  const entrada: EntradaDiario = { registradoEn: ahora.toISOString(), evento };
+  const ruta = rutaArchivoDelDia(ahora);
+
+  escrituras = escrituras.then(() => agregarLinea(ruta, JSON.stringify(entrada)));
+}
+
+/**
+ * Espera a que todas las escrituras pendientes del diario terminen
+ */
+export async function esperarDiario(): Promise<void> {
+  await escrituras;
+}
+
+/**
+ * Reconstruye el estado reaplicando los eventos del diario en orden de registro
+ * @param opciones Punto de partida de la reproducción
+ * @returns Resumen de la reproducción, o null si `desdeId` no está en el diario (el estado queda intacto)
+ */
+export async function reproducirDiario(opciones: OpcionesReproduccion = {}): Promise<ResultadoReproduccion | null> {
+  const desde = opciones.desde !== undefined ? new Date(opciones.desde) : undefined;
+
+  // Comprobar el punto de partida antes de tocar el estado
+  if (opciones.desdeId !== undefined && !(await contieneEvento(desde, opciones.desdeId))) {
+    emitirEventoError(`No se encontró el evento ${opciones.desdeId} en el diario; no se reproduce`);
+    return null;
+  }
+
+  let encontrado = opciones.desdeId === undefined;
+  let eventosAplicados = 0;
+
+  if (opciones.reiniciarEstado !== false) {
+    resetEstado();
+  }
+
+  const lectura = await recorrerDiario(desde, (entrada) => {
+    if (!encontrado) {
+      encontrado = entrada.evento.meta.id === opciones.desdeId;
+      if (!encontrado) {
+        return;
+      }
+    }
+
+    aplicarEventoAEstado(entrada.evento);
+    eventosAplicados++;
+  });
+
+  const resultado: ResultadoReproduccion = { ...lectura, eventosAplicados };
+  emitirEventoDiarioReproducido(resultado, opciones);
+
+  return resultado;
+}
+
+/**
+ * Recorre en orden de registro las entradas válidas del diario, incluidas las que aún se están escribiendo
+ * @param desde Instante mínimo de registro (sin él se recorre el diario completo)
+ * @param visitante Función llamada con cada entrada
+ * @returns Archivos leídos y líneas descartadas por corruptas
+ */
+export async function recorrerDiario(
+  desde: Date | undefined,
+  visitante: (entrada: EntradaDiario) => void
+): Promise<Omit<ResultadoReproduccion, 'eventosAplicados'>> {
+  const lectura = { archivosLeidos: 0, lineasInvalidas: 0 };
+
+  await esperarDiario();
+
+  for (const archivo of await listarArchivosDiario(desde)) {
+    const contenido = await leerArchivo(path.join(configuracion.directorio, archivo));
+
+    if (contenido === null) {
+      continue;
+    }
+
+    lectura.archivosLeidos++;
+
+    for (const linea of contenido.split('\n')) {
+      if (!linea.trim()) {
+        continue;
+      }
+
+      const entrada = interpretarLinea(linea);
+
+      // Una caída a mitad de escritura puede dejar la última línea truncada
+      if (!entrada) {
+        lectura.lineasInvalidas++;
+        continue;
+      }
+
+      if (desde && new Date(entrada.registradoEn) < desde) {
+        continue;
+      }
+
+      visitante(entrada);
+    }
+  }
+
+  return lectura;
+}
+
+/**
+ * Indica si un evento figura en el diario a partir de un instante
+ */
+async function contieneEvento(desde: Date | undefined, eventoId: string): Promise<boolean> {
+  let encontrado = false;
+
+  await recorrerDiario(desde, (entrada) => {
+    if (entrada.evento.meta.id === eventoId) {
+      encontrado = true;
+    }
+  });
+
+  return encontrado;
+}
+
+/**
+ * Ruta relativa (al directorio de datos de almacenamiento) del archivo del diario para una fecha
+ */
+function rutaArchivoDelDia(fecha: Date): string {
+  return path.join(configuracion.directorio, `${PREFIJO_ARCHIVO}${format(fecha, 'yyyy-MM-dd')}${EXTENSION_ARCHIVO}`);
+}
+
+/**
+ * Lista los archivos del diario en orden cronológico, omitiendo los días anteriores a `desde`
+ */
+async function listarArchivosDiario(desde?: Date): Promise<string[]> {
+  if (!(await existeArchivo(configuracion.directorio))) {
+    return [];
+  }
+
+  const archivos = (await listarArchivos(configuracion.directorio, EXTENSION_ARCHIVO)) ?? [];
+  const primero = desde ? path.basename(rutaArchivoDelDia(desde)) : '';
+
+  // El nombre lleva la fecha en formato AAAA-MM-DD, así que el orden alfabético es el cronológico
+  return archivos
+    .filter(archivo => archivo.startsWith(PREFIJO_ARCHIVO) && archivo >= primero)
+    .sort();
+}
+
+/**
+ * Interpreta una línea del diario y actualiza su evento a la versión actual del esquema
+ * @returns La entrada validada o null si la línea está corrupta o su versión no se puede actualizar
+ */
+function interpretarLinea(linea: string): EntradaDiario | null {
+  try {
+    const resultado = EntradaDiarioSchema.safeParse(JSON.parse(linea));
+    return resultado.success
+      ? { ...resultado.data, evento: actualizarEvento(resultado.data.evento) }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Emite un evento con el resumen de una reproducción del diario
+ */
+function emitirEventoDiarioReproducido(resultado: ResultadoReproduccion, opciones: OpcionesReproduccion): void {
+  const evento = crearEventoBase('core:diarioReproducido', {
+    ...resultado,
+    desde: opciones.desde !== undefined ? new Date(opciones.desde).toISOString() : undefined,
+    desdeId: opciones.desdeId,
+    timestamp: new Date().toISOString()
+  }, 'corazon', 6);
+
+  EventBus.emit('core:diarioReproducido', evento);
+}
+
+/**
+ * Emite un evento de error del diario
+ * @param mensaje Mensaje descriptivo del error
+ */
+function emitirEventoError(mensaje: string): void {
+  const evento = crearEventoBase('core:errorDetectado', {
+    mensaje,
+    componente: 'diarioEventos',
+    critico: false
+  }, 'corazon', 8);
+
+  EventBus.emit('core:errorDetectado', evento);
+}
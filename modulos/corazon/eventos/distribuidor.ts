@@ -1,45 +1,36 @@
 /**
  * distribuidor.ts
  * 
- * Recibe eventos ya validados desde broker.ts y los redistribuye a través del sistema.
+ * Recibe eventos ya validados por broker.ts, en orden de prioridad desde colaEventos.ts,
+ * y los redistribuye a través del sistema.
  * No modifica eventos, no guarda estado, no decide destino.
  * Cumple una función de "megáfono" del sistema.
  */
 
 import { EventBus } from '../utils/helpers';
 import { Evento } from './broker';
+import { entregarConRespaldo } from './cartasMuertas';
+import { esSolicitud } from '../../core/catalogoEventos';
 
 /**
  * Distribuye un evento previamente validado a través del sistema
  * @param evento Evento validado a distribuir
+ * @returns Promesa que se resuelve cuando todos los manejadores del evento han terminado
  */
-export function distribuirEvento(evento: Evento): void {
+export async function distribuirEvento(evento: Evento): Promise<void> {
   try {
-    // Distribuye el evento original usando su tipo como canal
-    // Esto permite que cualquier módulo que escuche este tipo reciba el evento
-    EventBus.emit(evento.meta.tipo, evento);
+    // Distribuye el evento original a cada módulo que escuche su tipo (o un patrón que lo incluya).
+    // El broker ya comprobó que el tipo está en el catálogo y que el payload cumple su esquema.
+    // Cada manejador se llama por separado: si uno falla, su entrega queda como carta muerta y el resto lo recibe igual.
+    const entregas = EventBus.obtenerManejadores(evento.meta.tipo).map(manejador => entregarConRespaldo(evento, manejador));
     
-    // Emite un evento interno para notificar que un evento ha sido distribuido
-    const eventoDistribuido = {
-      meta: {
-        id: crypto.randomUUID(),
-        timestamp: new Date().toISOString(),
-        tipo: 'core:eventoDistribuido',
-        origen: 'corazon',
-        prioridad: evento.meta.prioridad
-      },
-      payload: {
-        eventoOriginalId: evento.meta.id,
-        eventoOriginalTipo: evento.meta.tipo,
-        eventoOriginalOrigen: evento.meta.origen,
-        timestampDistribucion: new Date().toISOString()
-      },
-      contexto: {
-        dispositivoId: 'corazon'
-      }
-    };
+    // Las solicitudes van dirigidas al sistema, no al resto de dispositivos: la respuesta vuelve sola a quien preguntó
+    if (!esSolicitud(evento.meta.tipo)) {
+      notificarDistribucion(evento);
+    }
     
-    EventBus.emit('core:eventoDistribuido', eventoDistribuido);
+    // Los manejadores asíncronos siguen ocupando su turno de la cola hasta que terminan
+    await Promise.all(entregas);
     
   } catch (error) {
     // Si ocurre algún error durante la distribución, emite un evento de error
@@ -67,6 +58,35 @@ export function distribuirEvento(evento: Evento): void {
   }
 }
 
+/**
+ * Emite un evento interno para notificar que un evento ha sido distribuido
+ * @param evento Evento distribuido
+ */
+function notificarDistribucion(evento: Evento): void {
+  const eventoDistribuido = {
+    meta: {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      tipo: 'core:eventoDistribuido',
+      origen: 'corazon',
+      prioridad: evento.meta.prioridad
+    },
+    payload: {
+      eventoOriginalId: evento.meta.id,
+      eventoOriginalTipo: evento.meta.tipo,
+      eventoOriginalOrigen: evento.meta.origen,
+      timestampDistribucion: new Date().toISOString(),
+      // El evento completo viaja adjunto para que el microservidor lo reenvíe a los dispositivos
+      eventoOriginal: evento
+    },
+    contexto: {
+      dispositivoId: 'corazon'
+    }
+  };
+  
+  EventBus.emit('core:eventoDistribuido', eventoDistribuido);
+}
+
 /**
  * Inicializa el distribuidor
  * Este método existe principalmente para mantener consistencia con otros componentes
@@ -0,0 +1,199 @@
+/**
+ * middlewares.ts
+ *
+ * Cadena ordenada de middlewares por la que pasa cada evento que recibe el broker.
+ * Cada etapa puede enriquecer o transformar el evento (modificando o reemplazando `contexto.evento`),
+ * rechazarlo con un error estructurado o detener la cadena sin error.
+ * Las etapas internas (validación, llave, deduplicación, aceptación) las define broker.ts;
+ * otros módulos añaden las suyas con `usarMiddleware`. Se miden tiempos y resultados por etapa.
+ */
+
+import { performance } from 'perf_hooks';
+import type { ZodIssue } from 'zod';
+import type { CancelarSuscripcion } from '../../core/eventBus';
+import type { Evento } from './broker';
+
+/**
+ * Contexto compartido por las etapas durante el procesamiento de un evento
+ */
+export interface ContextoMiddleware {
+  // Evento tal como llegó al broker
+  readonly crudo: unknown;
+  // Evento en curso; hasta superar la validación del sobre es el evento crudo
+  evento: Evento;
+  // Espacio libre para que una etapa deje datos a las siguientes
+  datos: Record<string, unknown>;
+}
+
+/**
+ * Motivo de rechazo de un evento
+ */
+export interface RechazoMiddleware {
+  tipoError: string;
+  mensaje: string;
+  problemas?: ZodIssue[];
+}
+
+/**
+ * Resultado de una etapa: nada para continuar, `rechazar` para descartar el evento con error
+ * o `detener` para cortar la cadena sin error (la etapa ya informó lo que correspondía)
+ */
+export type ResultadoMiddleware = void | { rechazar: RechazoMiddleware } | { detener: true };
+
+/**
+ * Etapa de la cadena. Puede ser asíncrona; las síncronas no ceden el hilo.
+ */
+export type Middleware = (contexto: ContextoMiddleware) => ResultadoMiddleware | Promise<ResultadoMiddleware>;
+
+/**
+ * Opciones al registrar un middleware
+ */
+export interface OpcionesMiddleware {
+  // Nombre para las métricas (default: nombre de la función)
+  nombre?: string;
+  // Etapa delante de la cual se inserta (default: "aceptar", es decir, tras todas las validaciones)
+  antesDe?: string;
+}
+
+/**
+ * Métricas acumuladas de una etapa
+ */
+export interface MetricasMiddleware {
+  nombre: string;
+  interno: boolean;
+  ejecuciones: number;
+  rechazos: number;
+  detenciones: number;
+  errores: number;
+  tiempoTotalMs: number;
+  tiempoMaximoMs: number;
+}
+
+// Etapa registrada con sus métricas
+interface EtapaMiddleware {
+  nombre: string;
+  middleware: Middleware;
+  metricas: MetricasMiddleware;
+}
+
+// Etapa final por defecto ante la que se insertan los middlewares externos
+const ETAPA_ACEPTAR = 'aceptar';
+
+// Cadena en orden de ejecución
+const cadena: EtapaMiddleware[] = [];
+
+/**
+ * Añade un middleware a la cadena del broker
+ * @param middleware Función de la etapa
+ * @param opciones Nombre y posición
+ * @returns Función que quita el middleware de la cadena
+ */
+export function usarMiddleware(middleware: Middleware, opciones: OpcionesMiddleware = {}): CancelarSuscripcion {
+  const etapa = crearEtapa(opciones.nombre ?? (middleware.name || `middleware${cadena.length}`), middleware, false);
+  const indice = cadena.findIndex(e => e.nombre === (opciones.antesDe ?? ETAPA_ACEPTAR));
+
+  cadena.splice(indice === -1 ? cadena.length : indice, 0, etapa);
+
+  return () => {
+    const posicion = cadena.indexOf(etapa);
+    if (posicion !== -1) {
+      cadena.splice(posicion, 1);
+    }
+  };
+}
+
+/**
+ * Define las etapas internas del broker, al final de la cadena y en el orden dado.
+ * @param etapas Pares nombre -> middleware
+ */
+export function definirMiddlewaresInternos(etapas: Record<string, Middleware>): void {
+  for (const [nombre, middleware] of Object.entries(etapas)) {
+    cadena.push(crearEtapa(nombre, middleware, true));
+  }
+}
+
+/**
+ * Hace pasar un evento por toda la cadena.
+ * Mientras las etapas sean síncronas, la cadena entera se ejecuta sin ceder el hilo,
+ * lo que conserva el orden de llegada de los eventos.
+ * @param crudo Evento tal como llegó
+ * @param alCortar Se llama si el evento no recorre toda la cadena: con el motivo si alguna etapa
+ *   lo rechaza o lanza un error, y sin él si una etapa detiene la cadena
+ */
+export async function ejecutarMiddlewares(
+  crudo: unknown,
+  alCortar: (contexto: ContextoMiddleware, rechazo?: RechazoMiddleware) => void
+): Promise<void> {
+  const contexto: ContextoMiddleware = { crudo, evento: crudo as Evento, datos: {} };
+
+  // Copia: la cadena puede cambiar mientras un middleware asíncrono espera
+  for (const etapa of [...cadena]) {
+    const inicio = performance.now();
+    let resultado: ResultadoMiddleware;
+
+    try {
+      const salida = etapa.middleware(contexto);
+      resultado = salida instanceof Promise ? await salida : salida;
+    } catch (error) {
+      anotarEjecucion(etapa, inicio);
+      etapa.metricas.errores++;
+      alCortar(contexto, {
+        tipoError: 'ERROR_PROCESAMIENTO',
+        mensaje: `${etapa.nombre}: ${error instanceof Error ? error.message : 'Error desconocido'}`
+      });
+      return;
+    }
+
+    anotarEjecucion(etapa, inicio);
+
+    if (resultado && 'rechazar' in resultado) {
+      etapa.metricas.rechazos++;
+      alCortar(contexto, resultado.rechazar);
+      return;
+    }
+
+    if (resultado && 'detener' in resultado) {
+      etapa.metricas.detenciones++;
+      alCortar(contexto);
+      return;
+    }
+  }
+}
+
+/**
+ * Devuelve las métricas de cada etapa en orden de ejecución
+ */
+export function obtenerMetricasMiddlewares(): MetricasMiddleware[] {
+  return cadena.map(({ metricas }) => ({ ...metricas }));
+}
+
+/**
+ * Crea una etapa con sus métricas a cero
+ */
+function crearEtapa(nombre: string, middleware: Middleware, interno: boolean): EtapaMiddleware {
+  return {
+    nombre,
+    middleware,
+    metricas: {
+      nombre,
+      interno,
+      ejecuciones: 0,
+      rechazos: 0,
+      detenciones: 0,
+      errores: 0,
+      tiempoTotalMs: 0,
+      tiempoMaximoMs: 0
+    }
+  };
+}
+
+/**
+ * Acumula la duración de una ejecución de la etapa
+ */
+function anotarEjecucion(etapa: EtapaMiddleware, inicio: number): void {
+  const duracion = performance.now() - inicio;
+
+  etapa.metricas.ejecuciones++;
+  etapa.metricas.tiempoTotalMs += duracion;
+  etapa.metricas.tiempoMaximoMs = Math.max(etapa.metricas.tiempoMaximoMs, duracion);
+}
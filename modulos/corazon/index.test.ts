@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import { iniciarCorazon, reiniciarCorazon } from './index';
+import { EventBus } from './utils/helpers';
+import type { TipoEvento } from '../core/catalogoEventos';
+
+vi.mock('./config/config', () => ({
+  cargarConfig: async () => {},
+  getConfig: () => ({}),
+  getClaveConfig: (clave: string) => clave === 'diarioEventos' ? { habilitado: false } : undefined
+}));
+
+// Sin resolver en este árbol: se sustituye por el especificador con que lo importa el broker
+vi.mock('../validacion/llaves', () => ({
+  validarLlaveDispositivo: () => true
+}));
+
+vi.mock('./estado/registroDispositivos', () => ({
+  cargarDispositivos: async () => {},
+  vigilarDispositivos: () => {},
+  agregarDispositivo: async () => {},
+  actualizarDispositivo: async () => {},
+  getDispositivoPorId: () => undefined,
+  getDispositivos: () => [],
+  esLlaveExpirada: () => false
+}));
+
+const TIPOS_DEL_SISTEMA: TipoEvento[] = [
+  'core:reiniciarSistema',
+  'core:ping',
+  'core:solicitarEstado',
+  'core:solicitarMetricas',
+  'core:modoOffline',
+  'core:logGenerado',
+  'core:procesarEvento',
+  'microservidor:presenciaCambiada'
+];
+
+const contarManejadores = () => TIPOS_DEL_SISTEMA.map(tipo => [tipo, EventBus.obtenerManejadores(tipo).length]);
+
+describe('corazon', () => {
+  it('no duplica los listeners del sistema al reiniciarse', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await iniciarCorazon();
+    const trasIniciar = contarManejadores();
+
+    await reiniciarCorazon();
+    await reiniciarCorazon();
+
+    expect(contarManejadores()).toEqual(trasIniciar);
+    expect(EventBus.obtenerManejadores('core:reiniciarSistema')).toHaveLength(1);
+  });
+});
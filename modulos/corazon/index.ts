@@ -6,16 +6,46 @@
  * Exporta funciones limpias y emite eventos cuando el sistema está listo.
  */
 
-import { cargarConfig, getConfig } from './config/config';
-import { iniciarEstado, resetEstado } from './estado/estado';
-import { cargarDispositivos } from './estado/registroDispositivos';
+import { cargarConfig, getConfig, getClaveConfig } from './config/config';
+import { iniciarEstado, resetEstado, setEstadoPorClave, getEstado, getEstadoPorClave } from './estado/estado';
+import { registrarAplicadoresDelSistema } from './estado/aplicadores';
+import { cargarDispositivos, vigilarDispositivos } from './estado/registroDispositivos';
+import { iniciarEmparejamiento } from './estado/emparejamiento';
+import { iniciarRotacionLlaves } from './estado/rotacionLlaves';
 import { iniciarBroker, procesarEvento } from './eventos/broker';
+import { obtenerMetricasMiddlewares } from './eventos/middlewares';
 import { iniciarDistribuidor } from './eventos/distribuidor';
+import { iniciarDiario, reproducirDiario, OpcionesReproduccion, ResultadoReproduccion } from './eventos/diarioEventos';
+import { iniciarDeduplicador } from './eventos/deduplicador';
 import { EventBus, crearEventoBase } from './utils/helpers';
+import { responder } from '../core/solicitudes';
+import { cargarPoliticaRoles } from '../core/politicaRoles';
+
+// Los módulos añaden etapas propias a la cadena de middlewares del broker (por defecto, tras las validaciones)
+export { usarMiddleware } from './eventos/middlewares';
+export type { Middleware, ContextoMiddleware, OpcionesMiddleware } from './eventos/middlewares';
+
+// Los módulos registran la migración de sus payloads cuando cambia la forma de un tipo de evento
+export { registrarUpcaster } from '../core/versionesEventos';
+export type { Upcaster } from '../core/versionesEventos';
+
+// Apertura local de ventanas de emparejamiento (p. ej. desde la consola del servidor)
+export { habilitarEmparejamiento, cerrarEmparejamiento, obtenerVentanaEmparejamiento } from './estado/emparejamiento';
+export type { VentanaEmparejamiento } from './estado/emparejamiento';
+
+// Los módulos con estado propio registran cómo lo cambian sus eventos, para que la reproducción del diario lo reconstruya
+export { registrarAplicadorEstado } from './estado/estado';
+export type { AplicadorEstado } from './estado/estado';
+
+// Rotación manual de la llave de un dispositivo
+export { rotarLlave } from './estado/rotacionLlaves';
 
 // Estado de inicialización
 let corazonIniciado = false;
 
+// Los listeners del sistema sobreviven a los reinicios: se registran una sola vez
+let listenersRegistrados = false;
+
 /**
  * Inicia el módulo corazon y todos sus componentes
  * Esta es la función principal que debe ser llamada para arrancar el sistema
@@ -36,8 +66,24 @@ export async function iniciarCorazon(): Promise<void> {
     // Inicializar estado
     iniciarEstado();
     
-    // Cargar dispositivos autorizados
+    // Abrir el diario de eventos y recuperar el estado de las últimas horas
+    await iniciarDiario(getClaveConfig('diarioEventos'));
+    
+    // Recuperar del diario los ids recientes para seguir descartando reenvíos tras el reinicio
+    await iniciarDeduplicador(getClaveConfig('deduplicacion'));
+    
+    // Cargar dispositivos autorizados y recargarlos cuando cambie el archivo
     await cargarDispositivos();
+    vigilarDispositivos();
+    
+    // Atender la apertura de ventanas de emparejamiento y el alta de dispositivos nuevos
+    iniciarEmparejamiento(getClaveConfig('emparejamiento'));
+    
+    // Programar la rotación de las llaves que caducan
+    iniciarRotacionLlaves(getClaveConfig('rotacionLlaves'));
+    
+    // Cargar la política de roles que aplica el broker (sin ella se deniega todo)
+    await cargarPoliticaRoles();
     
     // Iniciar broker de eventos
     iniciarBroker();
@@ -100,35 +146,66 @@ export function manejarEvento(evento: unknown): void {
 }
 
 /**
- * Registra los listeners de eventos del sistema
+ * Reconstruye el estado reaplicando el diario de eventos desde un instante o un id de evento
+ * Esta función expone la reproducción del diario al exterior; devuelve null si no encuentra `desdeId`
+ */
+export async function reconstruirEstado(opciones: OpcionesReproduccion = {}): Promise<ResultadoReproduccion | null> {
+  return reproducirDiario(opciones);
+}
+
+/**
+ * Registra los listeners de eventos del sistema (solo la primera vez que se inicia el corazon)
  */
 function registrarListenersDelSistema(): void {
+  if (listenersRegistrados) {
+    return;
+  }
+
+  listenersRegistrados = true;
+  
   // Escuchar evento de reinicio del sistema
   EventBus.on('core:reiniciarSistema', async () => {
     console.log('Recibido evento de reinicio del sistema');
     await reiniciarCorazon();
   });
   
-  // Escuchar evento de modo offline
-  EventBus.on('core:modoOffline', (evento) => {
-    console.log('Cambiando a modo offline');
-    
-    // Actualizar estado del sistema
-    import('./estado/estado').then(modulo => {
-      modulo.setEstadoPorClave('sistema.online', false, 'core');
-    });
-  });
+  // Cambios de estado que también se reconstruyen al reproducir el diario
+  registrarAplicadoresDelSistema();
   
   // Escuchar evento de ping para monitoreo
   EventBus.on('core:ping', (evento) => {
     // Responder con un pong y estado básico del sistema
-    const respuesta = crearEventoBase('core:pong', {
+    responder(evento, 'core:pong', {
       timestamp: new Date().toISOString(),
       estado: 'activo',
       modulosActivos: getConfig().modulosDisponibles ? Object.keys(getConfig().modulosDisponibles).length : 0
     });
+  });
+  
+  // Responder consultas de estado (completo o de una clave, ej: "pedidos")
+  EventBus.on('core:solicitarEstado', (evento) => {
+    const { clave } = evento.payload;
     
-    EventBus.emit('core:pong', respuesta);
+    responder(evento, 'core:estadoActual', {
+      clave,
+      valor: clave ? getEstadoPorClave(clave) : getEstado()
+    });
+  });
+  
+  // Responder consultas de los contadores del broker
+  EventBus.on('core:solicitarMetricas', (evento) => {
+    responder(evento, 'core:metricasBroker', { etapas: obtenerMetricasMiddlewares() });
+  });
+  
+  // Reflejar en el estado la presencia de los dispositivos (cambios de estado y medidas de latido)
+  EventBus.on('microservidor:presenciaCambiada', (evento) => {
+    const { presencia } = evento.payload;
+    setEstadoPorClave(`dispositivos.${presencia.dispositivoId}`, presencia, 'microservidor');
+  });
+  
+  EventBus.on('microservidor:presenciaActualizada', (evento) => {
+    const { presencia } = evento.payload;
+    setEstadoPorClave(`dispositivos.${presencia.dispositivoId}`, presencia, 'microservidor');
   });
   
   // Escuchar evento de log generado
@@ -145,7 +222,7 @@ function registrarListenersDelSistema(): void {
 function emitirEventoSistemaListo(): void {
   const evento = crearEventoBase('core:listo', {
     timestamp: new Date().toISOString(),
-    versión: getConfig().versionConfig || '1.0.0',
+    version: getConfig().versionConfig || '1.0.0',
     modo: getConfig().inicializacion?.modoCarga || 'reactivo'
   });
   
@@ -160,7 +237,7 @@ function emitirEventoError(mensaje: string, error: unknown): void {
     mensaje,
     error: String(error),
     componente: 'index',
-    crítico: true
+    critico: true
   }, 'corazon', 10);
   
   EventBus.emit('core:errorDetectado', evento);
@@ -5,31 +5,18 @@
  * Incluye helpers para eventos, validación, fechas, logs, y una instancia global del EventBus.
  */
 
-import mitt from 'mitt';
 import { ZodSchema } from 'zod';
+import { eventBus, Evento } from '../../core/eventBus';
+import { versionActual } from '../../core/versionesEventos';
+import type { TipoEvento, PayloadDe, EventoDe } from '../../core/catalogoEventos';
 
-/**
- * Estructura estándar para los eventos del sistema
- */
-export interface Evento {
-  meta: {
-    id: string;
-    timestamp: string;
-    tipo: string;
-    origen: string;
-    prioridad: number;
-  };
-  payload: Record<string, any>;
-  contexto: {
-    dispositivoId: string;
-  };
-}
+export type { Evento, TipoEvento, PayloadDe, EventoDe };
 
 /**
  * EventBus global para la comunicación entre módulos
- * Basado en 'mitt', una implementación ligera de EventEmitter
+ * Es la misma instancia compartida con microservidor y almacenamiento (ver core/eventBus.ts)
  */
-export const EventBus = mitt();
+export const EventBus = eventBus;
 
 /**
  * Genera un nuevo UUID v4
@@ -49,27 +36,28 @@ export function timestampActual(): string {
 
 /**
  * Crea un evento base con la estructura estándar del sistema
- * @param tipo Tipo del evento (ej: "core:eventoRecibido")
- * @param payload Datos específicos del evento
+ * @param tipo Tipo del evento registrado en el catálogo (ej: "core:eventoRecibido")
+ * @param payload Datos específicos del evento, según el esquema del catálogo
  * @param origen Módulo que origina el evento (default: "corazon")
  * @param prioridad Nivel de prioridad del evento (default: 5)
  * @param dispositivoId ID del dispositivo que origina el evento (default: "corazon")
  * @returns Objeto Evento con estructura completa
  */
-export function crearEventoBase(
-  tipo: string, 
-  payload: Record<string, any>,
+export function crearEventoBase<K extends TipoEvento>(
+  tipo: K, 
+  payload: PayloadDe<K>,
   origen: string = 'corazon',
   prioridad: number = 5,
   dispositivoId: string = 'corazon'
-): Evento {
+): EventoDe<K> {
   return {
     meta: {
       id: generarUUID(),
       timestamp: timestampActual(),
       tipo,
       origen,
-      prioridad
+      prioridad,
+      versionEsquema: versionActual(tipo)
     },
     payload,
     contexto: {
@@ -0,0 +1,114 @@
+/**
+ * catalogoEventos.ts
+ *
+ * Registro central de los tipos de evento conocidos por el sistema.
+ * Cada módulo declara sus eventos en su propio catálogo (nombre del evento -> esquema Zod del payload);
+ * aquí se unen en un único catálogo que usa el broker para validar en tiempo de ejecución
+ * y del que se derivan los tipos TypeScript del bus para validar en compilación.
+ * También une las solicitudes (tipo de solicitud -> tipo de respuesta) que declara cada módulo
+ * y los eventos internos, que solo emite el servidor.
+ */
+
+import { z, ZodTypeAny } from 'zod';
+import type { Evento } from './eventBus';
+import { EventosCorazon, SolicitudesCorazon, EventosInternosCorazon } from '../corazon/eventos/catalogoEventos';
+import { EventosMicroservidor, EventosInternosMicroservidor } from '../microservidor/eventos/catalogoEventos';
+import { EventosAlmacenamiento } from '../almacenamiento/catalogoEventos';
+
+/**
+ * Catálogo completo: tipo de evento -> esquema del payload
+ */
+export const CatalogoEventos = {
+  ...EventosCorazon,
+  ...EventosMicroservidor,
+  ...EventosAlmacenamiento
+};
+
+/**
+ * Catálogo de solicitudes: tipo de la solicitud -> tipo de su respuesta
+ */
+export const CatalogoSolicitudes = {
+  ...SolicitudesCorazon
+};
+
+/**
+ * Eventos que solo emite el servidor y que un dispositivo nunca puede enviar
+ */
+const EventosInternos = new Set<string>([
+  ...EventosInternosCorazon,
+  ...EventosInternosMicroservidor
+]);
+
+/**
+ * Nombre de cualquier evento registrado en el catálogo
+ */
+export type TipoEvento = keyof typeof CatalogoEventos;
+
+/**
+ * Nombre de cualquier evento que admite respuesta
+ */
+export type TipoSolicitud = keyof typeof CatalogoSolicitudes;
+
+/**
+ * Tipo del evento de respuesta de una solicitud concreta
+ */
+export type RespuestaDe<K extends TipoSolicitud> = (typeof CatalogoSolicitudes)[K];
+
+/**
+ * Payload de un tipo de evento concreto, inferido de su esquema
+ */
+export type PayloadDe<K extends TipoEvento> = z.infer<(typeof CatalogoEventos)[K]>;
+
+/**
+ * Evento completo (sobre + payload tipado) de un tipo concreto
+ */
+export type EventoDe<K extends TipoEvento> = Evento<PayloadDe<K>>;
+
+/**
+ * Mapa de canales del bus derivado del catálogo
+ */
+export type MapaEventosCatalogo = { [K in TipoEvento]: EventoDe<K> };
+
+/**
+ * Indica si un tipo de evento está registrado en el catálogo
+ * @param tipo Tipo del evento (ej: "core:estadoModificado")
+ * @returns true si el tipo existe en el catálogo
+ */
+export function esTipoRegistrado(tipo: string): tipo is TipoEvento {
+  return Object.prototype.hasOwnProperty.call(CatalogoEventos, tipo);
+}
+
+/**
+ * Devuelve el esquema del payload para un tipo de evento
+ * @param tipo Tipo del evento
+ * @returns Esquema Zod o undefined si el tipo no está registrado
+ */
+export function obtenerEsquemaPayload(tipo: string): ZodTypeAny | undefined {
+  return esTipoRegistrado(tipo) ? CatalogoEventos[tipo] : undefined;
+}
+
+/**
+ * Indica si un tipo de evento es una solicitud que espera respuesta
+ * @param tipo Tipo del evento
+ * @returns true si el tipo está en el catálogo de solicitudes
+ */
+export function esSolicitud(tipo: string): tipo is TipoSolicitud {
+  return Object.prototype.hasOwnProperty.call(CatalogoSolicitudes, tipo);
+}
+
+/**
+ * Devuelve los tipos de evento que son respuesta de alguna solicitud
+ * @returns Lista sin repetidos de tipos de respuesta
+ */
+export function obtenerTiposRespuesta(): TipoEvento[] {
+  return [...new Set<TipoEvento>(Object.values(CatalogoSolicitudes))];
+}
+
+/**
+ * Indica si un tipo de evento es interno del servidor: un dispositivo no puede emitirlo
+ * @param tipo Tipo del evento
+ * @returns true si lo declara interno su módulo o es la respuesta de alguna solicitud
+ */
+export function esTipoInterno(tipo: string): boolean {
+  return EventosInternos.has(tipo) || (obtenerTiposRespuesta() as string[]).includes(tipo);
+}
@@ -0,0 +1,29 @@
+/**
+ * dispositivos.ts
+ *
+ * Esquema de config/dispositivos.json, compartido por corazon y microservidor.
+ * El corazon (estado/registroDispositivos.ts) es el dueño del archivo: lo vigila, escribe las altas y rotaciones
+ * y revoca a los dispositivos que dejan de estar autorizados. El microservidor guarda su propia copia para
+ * verificar las conexiones y la vuelve a leer cuando el corazon emite `core:dispositivosCargados`.
+ */
+
+import { z } from 'zod';
+
+// Esquema de validación para cada dispositivo
+export const DispositivoSchema = z.object({
+  id: z.string().min(1, 'El ID del dispositivo no puede estar vacío'),
+  llave: z.string().min(1, 'La llave del dispositivo no puede estar vacía'),
+  activo: z.boolean(),
+  rol: z.string().optional(),
+  // Caducidad de la llave; sin ella la llave no caduca
+  expiraEn: z.string().datetime().optional(),
+  // Llave reemplazada en la última rotación, aceptada hasta llaveAnteriorExpiraEn (periodo de gracia)
+  llaveAnterior: z.string().min(1).optional(),
+  llaveAnteriorExpiraEn: z.string().datetime().optional()
+});
+
+// Esquema para el array completo de dispositivos
+export const ListaDispositivosSchema = z.array(DispositivoSchema);
+
+// Tipo derivado del esquema
+export type DispositivoAutorizado = z.infer<typeof DispositivoSchema>;
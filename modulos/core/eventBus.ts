@@ -0,0 +1,220 @@
+/**
+ * eventBus.ts
+ *
+ * Bus de eventos único compartido por todos los módulos de PizzePOS (corazon, microservidor, almacenamiento).
+ * Existe una sola instancia por proceso, publicada en `global.eventBus`, de modo que un evento emitido
+ * por cualquier módulo llega a los listeners de todos los demás.
+ * Basado en 'mitt', con canales tipados por nombre de evento ("modulo:evento") según el catálogo,
+ * y suscripciones por patrón ("modulo:*", "*:error*", "**") para escuchar varios tipos a la vez.
+ */
+
+import mitt, { Emitter, Handler } from 'mitt';
+import { z } from 'zod';
+import type { MapaEventosCatalogo } from './catalogoEventos';
+
+/**
+ * Esquema Zod del sobre (meta, payload, contexto) común a todos los eventos.
+ * El contenido de `payload` se valida aparte, según el catálogo de eventos.
+ */
+export const EsquemaEvento = z.object({
+  meta: z.object({
+    id: z.string().uuid(),
+    timestamp: z.string().datetime(),
+    tipo: z.string(),
+    origen: z.string(),
+    prioridad: z.number().int().positive(),
+    correlacionId: z.string().uuid().optional(),
+    versionEsquema: z.number().int().positive().optional()
+  }),
+  payload: z.record(z.any()),
+  contexto: z.object({
+    dispositivoId: z.string(),
+    destinatario: z.string().optional()
+  })
+});
+
+/**
+ * Estructura estándar (sobre) de todos los eventos que circulan por el bus
+ */
+export interface Evento<P extends Record<string, any> = Record<string, any>> {
+  meta: {
+    id: string;
+    timestamp: string;
+    tipo: string;
+    origen: string;
+    prioridad: number;
+    // Enlaza una solicitud con su respuesta (ver solicitudes.ts)
+    correlacionId?: string;
+    // Versión del esquema del payload; sin ella se asume 1 (ver core/versionesEventos.ts)
+    versionEsquema?: number;
+  };
+  payload: P;
+  contexto: {
+    dispositivoId: string;
+    destinatario?: string;
+  };
+}
+
+/**
+ * Mapa de canales del bus: nombre del evento -> estructura que transporta.
+ * Se genera a partir del catálogo de eventos de cada módulo (ver catalogoEventos.ts).
+ */
+export type MapaEventos = MapaEventosCatalogo;
+
+/**
+ * Manejador de un canal concreto del bus
+ */
+export type ManejadorEvento<T> = Handler<T>;
+
+/**
+ * Función que cancela una suscripción
+ */
+export type CancelarSuscripcion = () => void;
+
+/**
+ * Suscripciones registradas para un tipo exacto o un patrón (para depuración)
+ */
+export interface ResumenSuscripcion {
+  patron: string;
+  esPatron: boolean;
+  manejadores: string[];
+}
+
+/**
+ * Interfaz pública del bus de eventos.
+ * Para cada evento se llama primero a los manejadores de su tipo exacto y después a los de los patrones
+ * que coincidan, en ambos casos en el orden en que se suscribieron.
+ */
+export interface BusEventos<M extends Record<string, unknown> = MapaEventos> {
+  on<K extends keyof M & string>(tipo: K, manejador: ManejadorEvento<M[K]>): CancelarSuscripcion;
+  off<K extends keyof M & string>(tipo: K, manejador?: ManejadorEvento<M[K]>): void;
+  once<K extends keyof M & string>(tipo: K, manejador: ManejadorEvento<M[K]>): CancelarSuscripcion;
+  emit<K extends keyof M & string>(tipo: K, evento: M[K]): void;
+  listenerCount(tipo: keyof M & string): number;
+  /**
+   * Suscribe un manejador a todos los tipos que coinciden con un patrón.
+   * `*` coincide con cualquier texto dentro de un segmento (sin ":"), `**` con cualquier texto.
+   * Ej: "flujoPedidos:*", "*:error*", "**".
+   */
+  suscribir(patron: string, manejador: ManejadorEvento<Evento>): CancelarSuscripcion;
+  /**
+   * Manejadores que recibirían un evento del tipo dado, en orden de entrega (exactos y luego patrones).
+   * Permite entregar un evento manejador por manejador, aislando los fallos de cada uno.
+   */
+  obtenerManejadores(tipo: string): ManejadorEvento<Evento>[];
+  listarSuscripciones(): ResumenSuscripcion[];
+}
+
+// Suscripción por patrón con su expresión ya compilada
+interface SuscripcionPatron {
+  patron: string;
+  expresion: RegExp;
+  manejador: ManejadorEvento<Evento>;
+}
+
+// Declarar el tipo para global.eventBus
+declare global {
+  var eventBus: BusEventos;
+}
+
+/**
+ * Crea un bus de eventos nuevo e independiente
+ * @returns Instancia de BusEventos
+ */
+export function crearBus<M extends Record<string, unknown> = MapaEventos>(): BusEventos<M> {
+  const emisor: Emitter<M> = mitt<M>();
+  const patrones: SuscripcionPatron[] = [];
+
+  // mitt entrega cada evento al canal comodín después de los manejadores de su tipo
+  emisor.on('*', (tipo, evento) => {
+    // Copia: un manejador puede cancelar su suscripción (u otras) durante la entrega
+    for (const suscripcion of [...patrones]) {
+      if (suscripcion.expresion.test(String(tipo))) {
+        suscripcion.manejador(evento as Evento);
+      }
+    }
+  });
+
+  return {
+    on: (tipo, manejador) => {
+      emisor.on(tipo, manejador);
+      return () => emisor.off(tipo, manejador);
+    },
+    off: (tipo, manejador) => emisor.off(tipo, manejador),
+    once: (tipo, manejador) => {
+      const envoltorio: typeof manejador = (evento) => {
+        emisor.off(tipo, envoltorio);
+        manejador(evento);
+      };
+      emisor.on(tipo, envoltorio);
+      return () => emisor.off(tipo, envoltorio);
+    },
+    emit: (tipo, evento) => emisor.emit(tipo, evento),
+    listenerCount: (tipo) => emisor.all.get(tipo)?.length ?? 0,
+    suscribir: (patron, manejador) => {
+      const suscripcion: SuscripcionPatron = { patron, expresion: compilarPatron(patron), manejador };
+      patrones.push(suscripcion);
+
+      return () => {
+        const indice = patrones.indexOf(suscripcion);
+        if (indice !== -1) {
+          patrones.splice(indice, 1);
+        }
+      };
+    },
+    obtenerManejadores: (tipo) => {
+      const exactos = (emisor.all.get(tipo) ?? []) as ManejadorEvento<Evento>[];
+      const coincidentes = patrones.filter(s => s.expresion.test(tipo)).map(s => s.manejador);
+      return [...exactos, ...coincidentes];
+    },
+    listarSuscripciones: () => {
+      const resumen: ResumenSuscripcion[] = [];
+
+      emisor.all.forEach((manejadores, tipo) => {
+        if (tipo !== '*' && manejadores && manejadores.length > 0) {
+          resumen.push({ patron: String(tipo), esPatron: false, manejadores: manejadores.map(nombreManejador) });
+        }
+      });
+
+      patrones.forEach(({ patron, manejador }) => {
+        const existente = resumen.find(r => r.esPatron && r.patron === patron);
+        if (existente) {
+          existente.manejadores.push(nombreManejador(manejador));
+        } else {
+          resumen.push({ patron, esPatron: true, manejadores: [nombreManejador(manejador)] });
+        }
+      });
+
+      return resumen;
+    }
+  };
+}
+
+/**
+ * Convierte un patrón de suscripción en una expresión regular anclada
+ * @param patron Patrón con comodines (ej: "modulo:*")
+ * @returns Expresión regular equivalente
+ */
+export function compilarPatron(patron: string): RegExp {
+  const cuerpo = patron
+    .split('**')
+    .map(parte => parte
+      .split('*')
+      .map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^:]*'))
+    .join('.*');
+
+  return new RegExp(`^${cuerpo}$`);
+}
+
+/**
+ * Nombre legible de un manejador para los listados de depuración
+ */
+function nombreManejador(manejador: Function): string {
+  return manejador.name || '(anónimo)';
+}
+
+/**
+ * Instancia global del bus. Si otro módulo ya la creó, se reutiliza.
+ */
+export const eventBus: BusEventos = globalThis.eventBus ?? (globalThis.eventBus = crearBus());
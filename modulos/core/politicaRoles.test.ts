@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { aplicarPoliticaRoles, cargarPoliticaRoles, estaAutorizado, resolverRol } from './politicaRoles';
+
+describe('politicaRoles', () => {
+  it('autoriza lo que coincide con algún patrón permitido y con ninguno denegado', () => {
+    aplicarPoliticaRoles({
+      roles: {
+        cocina: {
+          emitir: { permitir: ['flujoPedidos:*'], denegar: ['flujoPedidos:pedidoCancelado'] },
+          recibir: { permitir: ['**'] }
+        }
+      }
+    });
+
+    expect(estaAutorizado('cocina', 'flujoPedidos:pedidoListo', 'emitir')).toBe(true);
+    expect(estaAutorizado('cocina', 'flujoPedidos:pedidoCancelado', 'emitir')).toBe(false);
+    expect(estaAutorizado('cocina', 'core:reiniciarSistema', 'emitir')).toBe(false);
+    expect(estaAutorizado('cocina', 'core:reiniciarSistema', 'recibir')).toBe(true);
+    expect(estaAutorizado('cocina', 'flujoPedidos:*', 'suscribir')).toBe(false);
+  });
+
+  it('aplica el rol predeterminado a quien no tiene uno y deniega todo a un rol desconocido', () => {
+    aplicarPoliticaRoles({ rolPredeterminado: 'caja', roles: { caja: { emitir: { permitir: ['**'] } } } });
+
+    expect(resolverRol(undefined)).toBe('caja');
+    expect(estaAutorizado(undefined, 'flujoPedidos:pedidoCreado', 'emitir')).toBe(true);
+    expect(estaAutorizado('repartidor', 'flujoPedidos:pedidoCreado', 'emitir')).toBe(false);
+  });
+
+  it('conserva la política activa si la nueva no es válida', () => {
+    aplicarPoliticaRoles({ roles: { caja: { emitir: { permitir: ['**'] } } } });
+
+    expect(() => aplicarPoliticaRoles({ roles: { caja: { emitir: { permitir: 'todo' } } } })).toThrow();
+    expect(estaAutorizado('caja', 'flujoPedidos:pedidoCreado', 'emitir')).toBe(true);
+  });
+
+  it('carga la política de config/politicaRoles.json', async () => {
+    expect(await cargarPoliticaRoles()).toBe(true);
+
+    expect(estaAutorizado('administrador', 'core:reiniciarSistema', 'emitir')).toBe(true);
+    expect(estaAutorizado(undefined, 'core:reiniciarSistema', 'emitir')).toBe(false);
+    expect(estaAutorizado('operador', 'core:cartasMuertas', 'recibir')).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * politicaRoles.ts
+ *
+ * Política de autorización por rol (config/politicaRoles.json), compartida por corazon y microservidor.
+ * Para cada rol de dispositivo (`rol` en dispositivos.json) indica qué tipos de evento puede emitir
+ * y cuáles puede recibir, con patrones como los del bus ("modulo:*", "*:error*", "**").
+ * En `suscribir` se indican los patrones a los que un dispositivo puede suscribirse por WebSocket:
+ * el patrón solicitado se compara como texto, de modo que "**" permite cualquiera y "core:*" deniega "core:*" y "core:ping".
+ * En cada dirección, un tipo se autoriza si coincide con algún patrón de `permitir` y con ninguno de `denegar`.
+ * Los eventos internos del servidor (`esTipoInterno` en catalogoEventos.ts) no se emiten nunca, permita lo que permita la política.
+ * Sin política cargada, o para un rol desconocido, todo se deniega.
+ */
+
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { compilarPatron } from './eventBus';
+
+// Permisos de un rol en una dirección
+const PermisosSchema = z.object({
+  permitir: z.array(z.string()).default([]),
+  denegar: z.array(z.string()).default([])
+});
+
+// Esquema del archivo de política
+export const PoliticaRolesSchema = z.object({
+  // Rol aplicado a los dispositivos que no tienen uno asignado
+  rolPredeterminado: z.string().optional(),
+  roles: z.record(z.object({
+    emitir: PermisosSchema.default({}),
+    recibir: PermisosSchema.default({}),
+    suscribir: PermisosSchema.default({})
+  }))
+});
+
+export type PoliticaRoles = z.infer<typeof PoliticaRolesSchema>;
+
+/**
+ * Sentido de la comunicación que se autoriza
+ */
+export type DireccionAcceso = 'emitir' | 'recibir' | 'suscribir';
+
+// Permisos con los patrones ya compilados
+interface PermisosCompilados {
+  permitir: RegExp[];
+  denegar: RegExp[];
+}
+
+// Política activa (vacía hasta que se cargue: todo denegado)
+let politica: PoliticaRoles = { roles: {} };
+let compilada = new Map<string, Record<DireccionAcceso, PermisosCompilados>>();
+
+/**
+ * Lee y valida config/politicaRoles.json y la deja activa
+ * @returns true si se cargó; si falla se conserva la política anterior
+ */
+export async function cargarPoliticaRoles(): Promise<boolean> {
+  const ruta = path.join(process.cwd(), 'config', 'politicaRoles.json');
+
+  try {
+    const contenido = await fs.readFile(ruta, 'utf8');
+    aplicarPoliticaRoles(JSON.parse(contenido));
+    return true;
+  } catch (error) {
+    console.error(`No se pudo cargar la política de roles (${ruta}):`, error);
+    return false;
+  }
+}
+
+/**
+ * Valida una política y la deja activa
+ * @param datos Política sin validar
+ * @throws ZodError si la estructura no es válida
+ */
+export function aplicarPoliticaRoles(datos: unknown): void {
+  const nueva = PoliticaRolesSchema.parse(datos);
+  const nuevaCompilada = new Map<string, Record<DireccionAcceso, PermisosCompilados>>();
+
+  for (const [rol, permisos] of Object.entries(nueva.roles)) {
+    nuevaCompilada.set(rol, {
+      emitir: compilarPermisos(permisos.emitir),
+      recibir: compilarPermisos(permisos.recibir),
+      suscribir: compilarPermisos(permisos.suscribir)
+    });
+  }
+
+  politica = nueva;
+  compilada = nuevaCompilada;
+}
+
+/**
+ * Indica si un rol puede emitir o recibir un tipo de evento, o suscribirse a un patrón
+ * @param rol Rol del dispositivo (undefined si no tiene; se usa el rol predeterminado)
+ * @param tipo Tipo del evento (o patrón, al suscribir)
+ * @param direccion "emitir", "recibir" o "suscribir"
+ * @returns true si la política lo autoriza
+ */
+export function estaAutorizado(rol: string | undefined, tipo: string, direccion: DireccionAcceso): boolean {
+  const permisos = compilada.get(resolverRol(rol))?.[direccion];
+
+  if (!permisos) {
+    return false;
+  }
+
+  return permisos.permitir.some(patron => patron.test(tipo))
+    && !permisos.denegar.some(patron => patron.test(tipo));
+}
+
+/**
+ * Rol efectivo de un dispositivo
+ * @param rol Rol asignado, si tiene
+ * @returns El rol asignado o, si no tiene, el predeterminado de la política ("" si tampoco hay)
+ */
+export function resolverRol(rol: string | undefined): string {
+  return rol ?? politica.rolPredeterminado ?? '';
+}
+
+/**
+ * Compila los patrones de una dirección
+ */
+function compilarPermisos(permisos: { permitir: string[]; denegar: string[] }): PermisosCompilados {
+  return {
+    permitir: permisos.permitir.map(compilarPatron),
+    denegar: permisos.denegar.map(compilarPatron)
+  };
+}
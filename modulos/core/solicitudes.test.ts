@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { eventBus } from './eventBus';
+import { solicitar, responder } from './solicitudes';
+import type { CancelarSuscripcion } from './eventBus';
+
+const suscripciones: CancelarSuscripcion[] = [];
+
+describe('solicitudes', () => {
+  afterEach(() => {
+    suscripciones.splice(0).forEach(cancelar => cancelar());
+    vi.useRealTimers();
+  });
+
+  it('resuelve con la respuesta que lleva el mismo correlacionId y la dirige a quien preguntó', async () => {
+    suscripciones.push(eventBus.on('core:solicitarEstado', (solicitud) => {
+      // Una respuesta a otra solicitud no debe confundirse con la nuestra
+      responder({ ...solicitud, meta: { ...solicitud.meta, correlacionId: randomUUID() } }, 'core:estadoActual', { clave: 'ajena', valor: 1 });
+      responder(solicitud, 'core:estadoActual', { clave: solicitud.payload.clave, valor: true }, 'corazon');
+    }));
+
+    const respuesta = await solicitar('core:solicitarEstado', { clave: 'sistema.online' }, { origen: 'microservidor' });
+
+    expect(respuesta.payload).toEqual({ clave: 'sistema.online', valor: true });
+    expect(respuesta.meta.origen).toBe('corazon');
+    expect(respuesta.contexto.destinatario).toBe('microservidor');
+  });
+
+  it('marca la solicitud con un correlacionId nuevo y el origen indicado', async () => {
+    const solicitudes = vi.fn((solicitud) => responder(solicitud, 'core:pong', { timestamp: new Date().toISOString(), estado: 'activo', modulosActivos: 0 }));
+    suscripciones.push(eventBus.on('core:ping', solicitudes));
+
+    await solicitar('core:ping', {}, { origen: 'microservidor', prioridad: 7 });
+
+    const [solicitud] = solicitudes.mock.calls[0];
+    expect(solicitud.meta.correlacionId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(solicitud.meta).toMatchObject({ tipo: 'core:ping', origen: 'microservidor', prioridad: 7 });
+    expect(solicitud.contexto.dispositivoId).toBe('microservidor');
+  });
+
+  it('se rechaza si nadie responde a tiempo y deja de escuchar la respuesta', async () => {
+    vi.useFakeTimers();
+    const antes = eventBus.obtenerManejadores('core:pong').length;
+
+    const respuesta = solicitar('core:ping', {}, { timeoutMs: 1000 });
+    vi.advanceTimersByTime(1000);
+
+    await expect(respuesta).rejects.toThrow('Sin respuesta a core:ping tras 1000 ms');
+    expect(eventBus.obtenerManejadores('core:pong')).toHaveLength(antes);
+  });
+});
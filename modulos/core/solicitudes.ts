@@ -0,0 +1,106 @@
+/**
+ * solicitudes.ts
+ *
+ * Solicitudes con respuesta sobre el bus compartido (eventBus.ts), para cualquier módulo.
+ * Quien pregunta marca la solicitud con un `meta.correlacionId` nuevo; quien responde copia ese id
+ * y dirige la respuesta a quien preguntó. El tipo de la respuesta lo fija el catálogo de solicitudes.
+ * Un dispositivo conectado por WebSocket sigue el mismo protocolo.
+ */
+
+import { eventBus, MapaEventos } from './eventBus';
+import { CatalogoSolicitudes } from './catalogoEventos';
+import { versionActual } from './versionesEventos';
+import type { Evento } from './eventBus';
+import type { TipoEvento, PayloadDe, EventoDe, TipoSolicitud, RespuestaDe } from './catalogoEventos';
+
+/**
+ * Opciones de una solicitud con respuesta
+ */
+export interface OpcionesSolicitud {
+  // Tiempo máximo de espera de la respuesta en milisegundos (default: 5000)
+  timeoutMs?: number;
+  // Módulo que hace la solicitud (default: "corazon")
+  origen?: string;
+  // Nivel de prioridad de la solicitud (default: 5)
+  prioridad?: number;
+}
+
+/**
+ * Emite una solicitud y espera su respuesta.
+ * Se resuelve con el primer evento del tipo de respuesta que lleve el mismo `meta.correlacionId`.
+ * @param tipo Tipo de la solicitud (ej: "core:solicitarEstado")
+ * @param payload Datos de la solicitud, según el esquema del catálogo
+ * @param opciones Tiempo máximo de espera, origen y prioridad
+ * @returns Promesa con el evento de respuesta; se rechaza si vence el tiempo de espera
+ */
+export function solicitar<K extends TipoSolicitud>(
+  tipo: K,
+  payload: PayloadDe<K>,
+  opciones: OpcionesSolicitud = {}
+): Promise<MapaEventos[RespuestaDe<K>]> {
+  const { timeoutMs = 5000, origen = 'corazon', prioridad = 5 } = opciones;
+  const tipoRespuesta: RespuestaDe<K> = CatalogoSolicitudes[tipo];
+  const correlacionId = crypto.randomUUID();
+
+  const solicitud = crearEvento(tipo, payload, origen, prioridad);
+  solicitud.meta.correlacionId = correlacionId;
+
+  return new Promise((resolve, reject) => {
+    const manejador = (respuesta: MapaEventos[RespuestaDe<K>]) => {
+      if (respuesta.meta.correlacionId !== correlacionId) {
+        return;
+      }
+      clearTimeout(temporizador);
+      eventBus.off(tipoRespuesta, manejador);
+      resolve(respuesta);
+    };
+
+    const temporizador = setTimeout(() => {
+      eventBus.off(tipoRespuesta, manejador);
+      reject(new Error(`Sin respuesta a ${tipo} tras ${timeoutMs} ms`));
+    }, timeoutMs);
+
+    eventBus.on(tipoRespuesta, manejador);
+    eventBus.emit(tipo, solicitud as MapaEventos[K]);
+  });
+}
+
+/**
+ * Responde a una solicitud: copia su `meta.correlacionId` y dirige la respuesta a quien la hizo
+ * @param solicitud Evento de solicitud recibido
+ * @param tipoRespuesta Tipo del evento de respuesta (ej: "core:estadoActual")
+ * @param payload Datos de la respuesta, según el esquema del catálogo
+ * @param origen Módulo que responde (default: "corazon")
+ */
+export function responder<R extends TipoEvento>(
+  solicitud: Evento,
+  tipoRespuesta: R,
+  payload: PayloadDe<R>,
+  origen: string = 'corazon'
+): void {
+  const respuesta = crearEvento(tipoRespuesta, payload, origen, solicitud.meta.prioridad);
+  respuesta.meta.correlacionId = solicitud.meta.correlacionId;
+  respuesta.contexto.destinatario = solicitud.contexto.dispositivoId;
+
+  eventBus.emit(tipoRespuesta, respuesta as MapaEventos[R]);
+}
+
+/**
+ * Crea el evento de una solicitud o respuesta; el módulo que lo emite figura como origen y como dispositivo
+ */
+function crearEvento<K extends TipoEvento>(tipo: K, payload: PayloadDe<K>, origen: string, prioridad: number): EventoDe<K> {
+  return {
+    meta: {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      tipo,
+      origen,
+      prioridad,
+      versionEsquema: versionActual(tipo)
+    },
+    payload,
+    contexto: {
+      dispositivoId: origen
+    }
+  };
+}
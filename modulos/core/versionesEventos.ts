@@ -0,0 +1,82 @@
+/**
+ * versionesEventos.ts
+ *
+ * Versionado de los esquemas de payload por tipo de evento.
+ * Cuando cambia la forma del payload de un tipo, su módulo actualiza el esquema del catálogo y registra
+ * un "upcaster" que convierte el payload de la versión anterior en la nueva. La versión actual de un tipo
+ * es 1 más la última versión con upcaster registrado.
+ * El broker y la reproducción del diario actualizan cada evento a la versión actual antes de usarlo,
+ * de modo que los manejadores solo ven la forma más reciente aunque un cliente antiguo envíe la vieja.
+ */
+
+import type { Evento } from './eventBus';
+import type { TipoEvento } from './catalogoEventos';
+
+/**
+ * Convierte el payload de una versión en el de la siguiente
+ * @param payload Payload en la versión de origen
+ * @param evento Evento completo, por si la conversión necesita datos del sobre
+ * @returns Payload en la versión siguiente
+ */
+export type Upcaster = (payload: Record<string, any>, evento: Evento) => Record<string, any>;
+
+// tipo de evento -> versión de origen -> upcaster
+const upcasters = new Map<string, Map<number, Upcaster>>();
+
+/**
+ * Registra la conversión de un tipo de evento desde una versión a la siguiente
+ * @param tipo Tipo del evento
+ * @param desdeVersion Versión que convierte el upcaster (el resultado es desdeVersion + 1)
+ * @param upcaster Función de conversión
+ */
+export function registrarUpcaster(tipo: TipoEvento, desdeVersion: number, upcaster: Upcaster): void {
+  if (!Number.isInteger(desdeVersion) || desdeVersion < 1) {
+    throw new Error(`Versión de origen inválida para ${tipo}: ${desdeVersion}`);
+  }
+
+  const porVersion = upcasters.get(tipo) ?? new Map<number, Upcaster>();
+  porVersion.set(desdeVersion, upcaster);
+  upcasters.set(tipo, porVersion);
+}
+
+/**
+ * Versión actual del esquema de un tipo de evento
+ * @param tipo Tipo del evento
+ * @returns 1 si nunca cambió; si no, 1 más la mayor versión con upcaster
+ */
+export function versionActual(tipo: string): number {
+  const porVersion = upcasters.get(tipo);
+  return porVersion && porVersion.size > 0 ? Math.max(...porVersion.keys()) + 1 : 1;
+}
+
+/**
+ * Lleva un evento a la versión actual de su tipo aplicando en cadena los upcasters necesarios.
+ * Un evento sin `meta.versionEsquema` se considera de la versión 1.
+ * @param evento Evento en cualquier versión
+ * @returns Evento nuevo con el payload y `meta.versionEsquema` actualizados
+ * @throws Error si la versión es posterior a la actual o falta algún upcaster intermedio
+ */
+export function actualizarEvento<E extends Evento>(evento: E): E {
+  const tipo = evento.meta.tipo;
+  const actual = versionActual(tipo);
+  let version = evento.meta.versionEsquema ?? 1;
+
+  if (version > actual) {
+    throw new Error(`Versión ${version} de ${tipo} desconocida (la actual es ${actual})`);
+  }
+
+  let payload = evento.payload;
+
+  while (version < actual) {
+    const upcaster = upcasters.get(tipo)?.get(version);
+
+    if (!upcaster) {
+      throw new Error(`Falta el upcaster de ${tipo} desde la versión ${version}`);
+    }
+
+    payload = upcaster(payload, evento) as E['payload'];
+    version++;
+  }
+
+  return { ...evento, meta: { ...evento.meta, versionEsquema: actual }, payload };
+}
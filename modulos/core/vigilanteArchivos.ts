@@ -0,0 +1,70 @@
+/**
+ * vigilanteArchivos.ts
+ *
+ * Vigilancia de archivos de configuración para recargarlos en caliente.
+ * Se vigila el directorio y no el archivo: los editores suelen guardar escribiendo un archivo
+ * temporal y renombrándolo, lo que deja huérfano un vigilante puesto sobre el archivo original.
+ * Las ráfagas de notificaciones de un mismo guardado se agrupan en una sola llamada.
+ */
+
+import { watch, FSWatcher } from 'fs';
+import path from 'path';
+import type { CancelarSuscripcion } from './eventBus';
+
+// Espera por defecto para agrupar las notificaciones de un guardado
+const ESPERA_PREDETERMINADA_MS = 200;
+
+/**
+ * Llama a `alCambiar` cada vez que se crea, modifica o reemplaza un archivo
+ * @param ruta Ruta del archivo
+ * @param alCambiar Función a ejecutar tras el cambio; sus errores se registran y no detienen la vigilancia
+ * @param esperaMs Tiempo sin notificaciones tras el que se considera terminado el guardado
+ * @returns Función que deja de vigilar el archivo
+ */
+export function vigilarArchivo(
+  ruta: string,
+  alCambiar: () => void | Promise<void>,
+  esperaMs: number = ESPERA_PREDETERMINADA_MS
+): CancelarSuscripcion {
+  const nombre = path.basename(ruta);
+  let temporizador: NodeJS.Timeout | null = null;
+  let vigilante: FSWatcher | null = null;
+
+  const ejecutar = (): void => {
+    temporizador = null;
+
+    Promise.resolve()
+      .then(alCambiar)
+      .catch(error => console.error(`Error al recargar ${ruta}:`, error));
+  };
+
+  try {
+    vigilante = watch(path.dirname(ruta), (_tipo, archivo) => {
+      if (archivo !== null && archivo.toString() !== nombre) {
+        return;
+      }
+
+      if (temporizador) {
+        clearTimeout(temporizador);
+      }
+
+      temporizador = setTimeout(ejecutar, esperaMs);
+      temporizador.unref();
+    });
+
+    vigilante.unref();
+    vigilante.on('error', error => console.error(`Error vigilando ${ruta}:`, error));
+  } catch (error) {
+    console.error(`No se pudo vigilar ${ruta}:`, error);
+  }
+
+  return () => {
+    if (temporizador) {
+      clearTimeout(temporizador);
+      temporizador = null;
+    }
+
+    vigilante?.close();
+    vigilante = null;
+  };
+}
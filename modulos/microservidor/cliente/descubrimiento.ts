@@ -0,0 +1,167 @@
+/**
+ * descubrimiento.ts (cliente)
+ *
+ * Ayuda para que un dispositivo encuentre el microservidor en la red local sin tener configurada su IP
+ * (protocolo en servidor/protocolo.ts):
+ * - descubrirServidor / descubrirServidores: preguntan por broadcast y esperan las respuestas.
+ * - escucharAnuncios: atiende los anuncios periódicos, p. ej. para reconectar cuando cambia la IP del servidor.
+ * Usa `dgram`, así que necesita Node o un entorno con UDP; un frontend con otro acceso a UDP
+ * (p. ej. un plugin nativo) puede reutilizar interpretarAnuncio.
+ * El anuncio no está autenticado: el dispositivo que ya fijó la huella del certificado debe indicarla en `huella`.
+ */
+
+import { createSocket, Socket } from 'dgram';
+import {
+  AnuncioServidor,
+  AnuncioServidorSchema,
+  SERVICIO_DESCUBRIMIENTO,
+  PUERTO_DESCUBRIMIENTO
+} from '../servidor/protocolo';
+
+/**
+ * Servidor encontrado en la red local
+ */
+export interface ServidorDescubierto extends AnuncioServidor {
+  ip: string;
+  // Dirección del WebSocket: wss:// en modo seguro, ws:// si no
+  url: string;
+}
+
+/**
+ * Opciones de búsqueda
+ */
+export interface OpcionesDescubrimiento {
+  // Puerto UDP de descubrimiento del servidor (`descubrimiento.puerto`)
+  puerto?: number;
+  // Espera máxima de las respuestas, en ms
+  tiempoMaximo?: number;
+  // Solo se aceptan servidores con esta huella de certificado
+  huella?: string;
+  // Dirección a la que se envía la consulta (por defecto, broadcast limitado)
+  direccion?: string;
+}
+
+/**
+ * Busca el microservidor en la red local
+ * @param opciones Opciones de búsqueda
+ * @returns El primer servidor que responde, o null si ninguno responde a tiempo
+ */
+export async function descubrirServidor(opciones: OpcionesDescubrimiento = {}): Promise<ServidorDescubierto | null> {
+  const encontrados = await buscar(opciones, true);
+  return encontrados[0] ?? null;
+}
+
+/**
+ * Busca todos los microservidores de la red local
+ * @param opciones Opciones de búsqueda
+ * @returns Los servidores que respondieron dentro del tiempo máximo
+ */
+export function descubrirServidores(opciones: OpcionesDescubrimiento = {}): Promise<ServidorDescubierto[]> {
+  return buscar(opciones, false);
+}
+
+/**
+ * Escucha los anuncios periódicos de los servidores
+ * @param alAnuncio Recibe cada anuncio válido (uno cada `descubrimiento.intervalo` por servidor)
+ * @param opciones Puerto y huella exigida (el resto de opciones no se usa)
+ * @returns Función para dejar de escuchar
+ */
+export function escucharAnuncios(
+  alAnuncio: (servidor: ServidorDescubierto) => void,
+  opciones: OpcionesDescubrimiento = {}
+): () => void {
+  // Con reuseAddr pueden escuchar varios procesos del mismo equipo, incluido el propio servidor
+  const socket = createSocket({ type: 'udp4', reuseAddr: true });
+
+  socket.on('message', (mensaje, remitente) => {
+    const servidor = interpretarAnuncio(mensaje, remitente.address);
+
+    if (servidor && aceptado(servidor, opciones)) {
+      alAnuncio(servidor);
+    }
+  });
+  socket.on('error', (error) => console.error('Error al escuchar anuncios:', error.message));
+  socket.bind(opciones.puerto ?? PUERTO_DESCUBRIMIENTO);
+
+  return () => socket.close();
+}
+
+/**
+ * Interpreta un datagrama de anuncio
+ * @param mensaje Datagrama recibido
+ * @param ip IP de origen del datagrama, que es la del servidor
+ * @returns El servidor anunciado, o null si el datagrama no es un anuncio válido
+ */
+export function interpretarAnuncio(mensaje: Buffer | string, ip: string): ServidorDescubierto | null {
+  try {
+    const resultado = AnuncioServidorSchema.safeParse(JSON.parse(mensaje.toString()));
+
+    if (!resultado.success) {
+      return null;
+    }
+
+    const anuncio = resultado.data;
+    return { ...anuncio, ip, url: `${anuncio.seguro ? 'wss' : 'ws'}://${ip}:${anuncio.puerto}` };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Envía la consulta y recoge las respuestas hasta el tiempo máximo o, si se indica, hasta la primera
+ */
+function buscar(opciones: OpcionesDescubrimiento, soloPrimero: boolean): Promise<ServidorDescubierto[]> {
+  const encontrados = new Map<string, ServidorDescubierto>();
+  const consulta = Buffer.from(JSON.stringify({ servicio: SERVICIO_DESCUBRIMIENTO, consulta: true }));
+
+  return new Promise((resolve, reject) => {
+    // Puerto propio cualquiera: las respuestas llegan directamente a él
+    const socket: Socket = createSocket('udp4');
+    let terminada = false;
+
+    const terminar = (error?: Error): void => {
+      if (terminada) {
+        return;
+      }
+
+      terminada = true;
+      clearTimeout(temporizador);
+      socket.close();
+
+      if (error) {
+        reject(error);
+      } else {
+        resolve(Array.from(encontrados.values()));
+      }
+    };
+
+    const temporizador = setTimeout(() => terminar(), opciones.tiempoMaximo ?? 3000);
+
+    socket.on('message', (mensaje, remitente) => {
+      const servidor = interpretarAnuncio(mensaje, remitente.address);
+
+      if (!servidor || !aceptado(servidor, opciones)) {
+        return;
+      }
+
+      encontrados.set(servidor.url, servidor);
+
+      if (soloPrimero) {
+        terminar();
+      }
+    });
+    socket.once('error', terminar);
+
+    socket.bind(0, () => {
+      socket.setBroadcast(true);
+      socket.send(consulta, opciones.puerto ?? PUERTO_DESCUBRIMIENTO, opciones.direccion ?? '255.255.255.255');
+    });
+  });
+}
+
+/**
+ * Comprueba que un servidor tenga la huella exigida, si se exige alguna
+ */
+function aceptado(servidor: ServidorDescubierto, opciones: OpcionesDescubrimiento): boolean {
+  return !opciones.huella || servidor.huellaCertificado === opciones.huella;
+}
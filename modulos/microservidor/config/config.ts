@@ -8,17 +8,70 @@
 import { z } from 'zod';
 import { promises as fs } from 'fs';
 import { crearEventoBase } from '../utils/helpers';
+import { PUERTO_DESCUBRIMIENTO } from '../servidor/protocolo';
 import path from 'path';
 
+// Cubeta de fichas: ráfaga máxima y ritmo sostenido de mensajes
+const LimiteSchema = z.object({
+  capacidad: z.number().positive().default(30),
+  recargaPorSegundo: z.number().positive().default(10)
+});
+
 // Esquema de validación para la configuración mínima requerida
 const ConfigSchema = z.object({
   servidor: z.object({
     puerto: z.number().int().min(1).max(65535)
   }),
   version: z.string(),
+  // Modo seguro (wss://); los certificados se generan con `npm run certificados`
+  tls: z.object({
+    habilitado: z.boolean().default(false),
+    certificado: z.string().default('config/tls/servidor.crt'),
+    llave: z.string().default('config/tls/servidor.key')
+  }).default({}),
   seguridad: z.object({
-    permitirReconexiones: z.boolean().default(true),
-    tiempoMaximoInactivo: z.number().int().min(0).default(3600000) // 1 hora en ms
+    permitirReconexiones: z.boolean().default(true), // sesiones reanudables con reenvío de eventos perdidos
+    ventanaReconexion: z.number().int().positive().default(120000), // 2 minutos para reanudar la sesión
+    maxEventosPendientes: z.number().int().positive().default(500), // tamaño del búfer de eventos por dispositivo
+    tiempoMaximoInactivo: z.number().int().min(0).default(3600000), // 1 hora en ms; 0 desactiva la desconexión
+    tiempoMaximoAutenticacion: z.number().int().positive().default(5000), // 5 segundos para completar el desafío
+    intervaloLatido: z.number().int().positive().default(30000), // ping cada 30 segundos
+    tiempoAusente: z.number().int().positive().default(300000) // 5 minutos sin mensajes pasa a "idle"
+  }).default({}),
+  // Entrega "al menos una vez": eventos que el dispositivo debe confirmar (ver entregasConfirmadas.ts)
+  entregaConfirmada: z.object({
+    tipos: z.array(z.string()).default([]), // patrones de tipos, ej: "flujoPedidos:*"
+    intentosMaximos: z.number().int().positive().default(5),
+    esperaInicial: z.number().int().positive().default(2000), // se duplica en cada reintento
+    esperaMaxima: z.number().int().positive().default(60000)
+  }).default({}),
+  // Consultas HTTP de administración en el mismo puerto (ver administracion.ts)
+  administracion: z.object({
+    habilitada: z.boolean().default(true),
+    roles: z.array(z.string()).default(['administrador']) // roles de dispositivo que pueden consultarlas
+  }).default({}),
+  // Anuncio del servidor en la red local para que los dispositivos lo encuentren (ver descubrimiento.ts)
+  descubrimiento: z.object({
+    habilitado: z.boolean().default(true),
+    puerto: z.number().int().min(1).max(65535).default(PUERTO_DESCUBRIMIENTO), // puerto UDP de anuncios y consultas
+    intervalo: z.number().int().positive().default(5000) // anuncio por broadcast cada 5 segundos
+  }).default({}),
+  // Compresión y codificación de los mensajes WebSocket, negociadas con cada cliente en el handshake (ver protocolo.ts)
+  codificacion: z.object({
+    deflate: z.boolean().default(true), // permessage-deflate, si el cliente lo ofrece
+    umbralDeflate: z.number().int().min(0).default(1024), // bytes; los mensajes menores se envían sin comprimir
+    msgpack: z.boolean().default(true) // subprotocolo binario "pizzepos.msgpack"
+  }).default({}),
+  // Transporte alternativo SSE + POST en el mismo puerto, para dispositivos sin WebSocket estable (ver sse.ts)
+  sse: z.object({
+    habilitado: z.boolean().default(true)
+  }).default({}),
+  // Límites de los mensajes que envían los dispositivos (ver limitador.ts)
+  limites: z.object({
+    tamanoMaximoMensaje: z.number().int().positive().default(65536), // bytes; un mensaje mayor cierra la conexión
+    porDispositivo: LimiteSchema.default({}),
+    porTipo: z.record(LimiteSchema).default({}), // patrón de tipo de evento -> límite adicional
+    maxExcesosPorMinuto: z.number().int().positive().default(20) // mensajes descartados antes de desconectar
   }).default({}),
   logs: z.object({
     nivel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
@@ -35,9 +88,51 @@ const CONFIG_DEFAULT: ConfiguracionMicroservidor = {
     puerto: 8080
   },
   version: '1.0.0',
+  tls: {
+    habilitado: false,
+    certificado: 'config/tls/servidor.crt',
+    llave: 'config/tls/servidor.key'
+  },
   seguridad: {
     permitirReconexiones: true,
-    tiempoMaximoInactivo: 3600000 // 1 hora en ms
+    ventanaReconexion: 120000,
+    maxEventosPendientes: 500,
+    tiempoMaximoInactivo: 3600000, // 1 hora en ms
+    tiempoMaximoAutenticacion: 5000,
+    intervaloLatido: 30000,
+    tiempoAusente: 300000
+  },
+  entregaConfirmada: {
+    tipos: [],
+    intentosMaximos: 5,
+    esperaInicial: 2000,
+    esperaMaxima: 60000
+  },
+  administracion: {
+    habilitada: true,
+    roles: ['administrador']
+  },
+  descubrimiento: {
+    habilitado: true,
+    puerto: PUERTO_DESCUBRIMIENTO,
+    intervalo: 5000
+  },
+  codificacion: {
+    deflate: true,
+    umbralDeflate: 1024,
+    msgpack: true
+  },
+  sse: {
+    habilitado: true
+  },
+  limites: {
+    tamanoMaximoMensaje: 65536,
+    porDispositivo: {
+      capacidad: 30,
+      recargaPorSegundo: 10
+    },
+    porTipo: {},
+    maxExcesosPorMinuto: 20
   },
   logs: {
     nivel: 'info',
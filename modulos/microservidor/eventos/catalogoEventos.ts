@@ -0,0 +1,103 @@
+/**
+ * catalogoEventos.ts
+ * 
+ * Declara los eventos propios del módulo microservidor ("microservidor:*") junto con el esquema Zod de su payload.
+ */
+
+import { z } from 'zod';
+
+// Presencia de un dispositivo tal como la registra el servidor WebSocket
+export const EsquemaPresencia = z.object({
+  dispositivoId: z.string(),
+  estado: z.enum(['online', 'idle', 'offline']),
+  ip: z.string(),
+  conectadoDesde: z.string().optional(),
+  ultimaActividad: z.string(),
+  ultimoLatido: z.string().optional(),
+  latenciaMs: z.number().optional()
+});
+
+export const EventosMicroservidor = {
+  'microservidor:listo': z.object({
+    puerto: z.number().int(),
+    fecha: z.string(),
+    version: z.string(),
+    // En modo seguro (wss://), huella SHA-256 del certificado para fijarla en los dispositivos
+    seguro: z.boolean().optional(),
+    huellaCertificado: z.string().optional()
+  }),
+  'microservidor:apagando': z.object({
+    motivo: z.string(),
+    fecha: z.string()
+  }),
+  'microservidor:configCargada': z.object({
+    puerto: z.number().int(),
+    version: z.string(),
+    timestamp: z.string()
+  }),
+  'microservidor:errorConexion': z.object({
+    error: z.string(),
+    fecha: z.string(),
+    tipo: z.string().optional(),
+    ip: z.string().optional(),
+    dispositivoId: z.string().optional(),
+    componente: z.string().optional(),
+    critico: z.boolean().optional()
+  }),
+  'microservidor:conexionEstablecida': z.object({
+    dispositivoId: z.string(),
+    ip: z.string(),
+    fecha: z.string()
+  }),
+  'microservidor:dispositivoNoAutorizado': z.object({
+    dispositivoId: z.string(),
+    motivo: z.string(),
+    fecha: z.string()
+  }),
+  'microservidor:cerrarConexion': z.object({
+    dispositivoId: z.string(),
+    motivo: z.string()
+  }),
+  
+  // Presencia: cambios de estado y medidas de cada latido
+  'microservidor:presenciaCambiada': z.object({
+    estadoAnterior: z.enum(['online', 'idle', 'offline']).optional(),
+    presencia: EsquemaPresencia,
+    motivo: z.string().optional()
+  }),
+  'microservidor:presenciaActualizada': z.object({
+    presencia: EsquemaPresencia
+  }),
+  
+  // Un dispositivo reconectado reanudó su sesión y recibió los eventos que se perdió
+  'microservidor:sesionReanudada': z.object({
+    dispositivoId: z.string(),
+    eventosReenviados: z.number().int(),
+    fecha: z.string()
+  }),
+  
+  // Un evento con entrega confirmada no llegó a confirmarse (intentos agotados o acceso revocado)
+  'microservidor:entregaFallida': z.object({
+    dispositivoId: z.string(),
+    eventoId: z.string(),
+    tipoEvento: z.string(),
+    intentos: z.number().int(),
+    motivo: z.string(),
+    fecha: z.string()
+  }),
+  
+  // Un dispositivo fue desconectado por superar repetidamente los límites de mensajes
+  'microservidor:limiteExcedido': z.object({
+    dispositivoId: z.string(),
+    tipoEvento: z.string().optional(),
+    fecha: z.string()
+  }),
+  
+  // Transporta sin transformar el evento recibido por WebSocket
+  'microservidor:eventoEntrante': z.record(z.any())
+};
+
+/**
+ * Eventos del microservidor que solo emite el servidor: todos, porque los dispositivos hablan con el corazon
+ */
+export const EventosInternosMicroservidor = Object.keys(EventosMicroservidor);
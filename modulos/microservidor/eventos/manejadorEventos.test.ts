@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { eventBus } from '../../core/eventBus';
+import { iniciarManejadorEventos } from './manejadorEventos';
+import { cargarDispositivosDesdeArchivo, buscarDispositivo } from '../validacion/autenticacion';
+import type { DispositivoAutorizado } from '../../core/dispositivos';
+
+let directorio: string;
+
+async function escribirDispositivos(lista: DispositivoAutorizado[]): Promise<void> {
+  await writeFile(path.join(directorio, 'config', 'dispositivos.json'), JSON.stringify(lista));
+}
+
+function eventoDelCorazon<P extends Record<string, unknown>>(tipo: string, payload: P) {
+  return {
+    meta: { id: randomUUID(), timestamp: new Date().toISOString(), tipo, origen: 'corazon', prioridad: 8 },
+    payload,
+    contexto: { dispositivoId: 'corazon' }
+  };
+}
+
+describe('manejadorEventos', () => {
+  beforeAll(async () => {
+    directorio = await mkdtemp(path.join(tmpdir(), 'manejador-'));
+    await mkdir(path.join(directorio, 'config'));
+    vi.spyOn(process, 'cwd').mockReturnValue(directorio);
+
+    await escribirDispositivos([{ id: 'terminal-01', llave: 'llave-01', activo: true }]);
+    await cargarDispositivosDesdeArchivo();
+    iniciarManejadorEventos();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await rm(directorio, { recursive: true, force: true });
+  });
+
+  it('vuelve a leer dispositivos.json cuando el corazon lo carga', async () => {
+    await escribirDispositivos([
+      { id: 'terminal-01', llave: 'llave-01', activo: true },
+      { id: 'terminal-02', llave: 'llave-02', activo: true, rol: 'operador' }
+    ]);
+
+    eventBus.emit('core:dispositivosCargados', eventoDelCorazon('core:dispositivosCargados', {
+      cantidadDispositivos: 2,
+      dispositivosActivos: 2
+    }));
+
+    await vi.waitFor(() => expect(buscarDispositivo('terminal-02')?.rol).toBe('operador'));
+  });
+
+  it('pide cerrar la conexión de un dispositivo revocado por el corazon', () => {
+    const cierres = vi.fn();
+    const cancelar = eventBus.on('microservidor:cerrarConexion', cierres);
+
+    eventBus.emit('core:llaveRevocada', eventoDelCorazon('core:llaveRevocada', {
+      dispositivoId: 'terminal-01',
+      motivo: 'Dispositivo desactivado'
+    }));
+    cancelar();
+
+    expect(cierres).toHaveBeenCalledWith(expect.objectContaining({
+      payload: expect.objectContaining({ dispositivoId: 'terminal-01' })
+    }));
+  });
+});
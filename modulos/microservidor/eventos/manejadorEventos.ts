@@ -1,27 +1,20 @@
 /**
  * manejadorEventos.ts
  * 
- * Implementa el "bus de eventos" principal del microservidor.
+ * Conecta el microservidor al bus de eventos compartido del sistema (core/eventBus.ts).
  * Centraliza el manejo de todos los eventos internos del módulo microservidor.
- * Permite que los distintos componentes se comuniquen entre sí.
+ * Permite que los distintos componentes se comuniquen entre sí y con el corazon.
  */
 
-import { EventEmitter } from 'events';
-import { enviarMensajeADispositivo, enviarMensajeATodos } from '../servidor/ws';
-
-// Declarar el tipo para global.eventBus
-declare global {
-  var eventBus: EventEmitter;
-}
-
-// Crear instancia de EventEmitter
-const eventBus = new EventEmitter();
-
-// Configurar límites para evitar memory leaks
-eventBus.setMaxListeners(50);
-
-// Asignar a global para acceso desde cualquier parte del módulo
-global.eventBus = eventBus;
+import { eventBus, Evento, MapaEventos, CancelarSuscripcion, ResumenSuscripcion } from '../../core/eventBus';
+import { obtenerTiposRespuesta } from '../../core/catalogoEventos';
+import type { TipoEvento } from '../../core/catalogoEventos';
+import { enviarMensajeADispositivo, enviarMensajeATodos, cerrarConexionDispositivo, enviarLlaveRotada } from '../servidor/ws';
+import { cargarDispositivosDesdeArchivo } from '../validacion/autenticacion';
+import { descartarSesion } from '../servidor/sesiones';
+import { descartarEntregas } from '../servidor/entregasConfirmadas';
+import { CodigosCierre } from '../servidor/protocolo';
+import { crearEventoBase } from '../utils/helpers';
 
 /**
  * Inicia el manejador de eventos y configura los listeners principales
@@ -42,26 +35,56 @@ export function iniciarManejadorEventos(): void {
 function configurarListenersEventosCore(): void {
   // Escuchar eventos distribuidos por el core para reenviarlos a los dispositivos
   eventBus.on('core:eventoDistribuido', (evento) => {
-    console.log(`Recibido evento distribuido: ${evento.meta.tipo}`);
+    const eventoOriginal: Evento | undefined = evento.payload.eventoOriginal;
+    
+    if (!eventoOriginal) {
+      return;
+    }
+    
+    console.log(`Recibido evento distribuido: ${eventoOriginal.meta.tipo}`);
     
     // Si el evento tiene un destinatario específico, enviarlo solo a ese dispositivo
-    if (evento.destinatario) {
-      enviarMensajeADispositivo(evento.destinatario, evento);
+    if (eventoOriginal.contexto.destinatario) {
+      enviarMensajeADispositivo(eventoOriginal.contexto.destinatario, eventoOriginal);
     } else {
-      // Si no tiene destinatario específico, enviar a todos los dispositivos conectados
-      enviarMensajeATodos(evento);
+      // Si no tiene destinatario específico, enviar al resto de dispositivos suscritos a su tipo
+      enviarMensajeATodos(eventoOriginal, eventoOriginal.contexto.dispositivoId);
     }
   });
   
+  // Las respuestas a solicitudes no pasan por el distribuidor: se entregan solo al dispositivo que preguntó
+  obtenerTiposRespuesta().forEach(tipo => {
+    eventBus.on(tipo, (evento) => {
+      if (evento.contexto.destinatario) {
+        enviarMensajeADispositivo(evento.contexto.destinatario, evento);
+      }
+    });
+  });
+  
+  // Volver a leer dispositivos.json cada vez que el corazon lo carga (al iniciar, por cambios en el archivo,
+  // altas y rotaciones); las revocaciones llegan aparte, con core:llaveRevocada
+  eventBus.on('core:dispositivosCargados', async () => {
+    await cargarDispositivosDesdeArchivo();
+  });
+  
+  // Entregar las llaves rotadas por el corazon; la lista se lee antes de entregarla para que
+  // la llave nueva ya se acepte (los no conectados la reciben al volver a autenticarse)
+  eventBus.on('core:llaveRotada', async (evento) => {
+    const { dispositivoId, llave, expiraEn } = evento.payload;
+    
+    await cargarDispositivosDesdeArchivo();
+    enviarLlaveRotada(dispositivoId, llave, expiraEn);
+  });
+  
   // Escuchar revocaciones de llaves para desconectar dispositivos no autorizados
   eventBus.on('core:llaveRevocada', (evento) => {
     console.log(`Llave revocada para dispositivo: ${evento.payload.dispositivoId}`);
     
     // Emitir evento interno para que el servidor WebSocket cierre la conexión
-    eventBus.emit('microservidor:cerrarConexion', {
+    eventBus.emit('microservidor:cerrarConexion', crearEventoBase('microservidor:cerrarConexion', {
       dispositivoId: evento.payload.dispositivoId,
       motivo: 'Llave revocada por el sistema'
-    });
+    }));
   });
 }
 
@@ -79,6 +102,15 @@ function configurarListenersEventosInternos(): void {
     }
   });
   
+  // Cortar la conexión de los dispositivos revocados (llave revocada o cambio en dispositivos.json)
+  eventBus.on('microservidor:cerrarConexion', (evento) => {
+    // Si no está conectado, tampoco debe poder reanudar su sesión ni recibir lo pendiente
+    if (!cerrarConexionDispositivo(evento.payload.dispositivoId, CodigosCierre.ACCESO_REVOCADO, evento.payload.motivo)) {
+      descartarSesion(evento.payload.dispositivoId);
+      descartarEntregas(evento.payload.dispositivoId, evento.payload.motivo);
+    }
+  });
+  
   // Escuchar errores de conexión para registrarlos
   eventBus.on('microservidor:errorConexion', (evento) => {
     console.error(`Error de conexión: ${evento.payload.error}`);
@@ -111,7 +143,7 @@ function configurarListenersEventosInternos(): void {
  * @param tipo Tipo de evento (formato 'modulo:evento')
  * @param datos Datos del evento
  */
-export function emitirEventoGlobal(tipo: string, datos: any): void {
+export function emitirEventoGlobal<K extends TipoEvento>(tipo: K, datos: MapaEventos[K]): void {
   eventBus.emit(tipo, datos);
 }
 
@@ -119,9 +151,20 @@ export function emitirEventoGlobal(tipo: string, datos: any): void {
  * Suscribe un callback a un tipo de evento
  * @param tipo Tipo de evento a escuchar
  * @param callback Función a ejecutar cuando ocurra el evento
+ * @returns Función que cancela la suscripción
+ */
+export function suscribirseEvento<K extends TipoEvento>(tipo: K, callback: (datos: MapaEventos[K]) => void): CancelarSuscripcion {
+  return eventBus.on(tipo, callback);
+}
+
+/**
+ * Suscribe un callback a todos los tipos de evento que coinciden con un patrón
+ * @param patron Patrón de tipos (ej: "flujoPedidos:*", "*:error*", "**")
+ * @param callback Función a ejecutar cuando ocurra un evento que coincida
+ * @returns Función que cancela la suscripción
  */
-export function suscribirseEvento(tipo: string, callback: (datos: any) => void): void {
-  eventBus.on(tipo, callback);
+export function suscribirsePatron(patron: string, callback: (datos: Evento) => void): CancelarSuscripcion {
+  return eventBus.suscribir(patron, callback);
 }
 
 /**
@@ -129,7 +172,7 @@ export function suscribirseEvento(tipo: string, callback: (datos: any) => void):
  * @param tipo Tipo de evento
  * @param callback Función a eliminar
  */
-export function desuscribirseEvento(tipo: string, callback: (datos: any) => void): void {
+export function desuscribirseEvento<K extends TipoEvento>(tipo: K, callback: (datos: MapaEventos[K]) => void): void {
   eventBus.off(tipo, callback);
 }
 
@@ -138,6 +181,14 @@ export function desuscribirseEvento(tipo: string, callback: (datos: any) => void
  * @param tipo Tipo de evento
  * @returns Número de listeners para el evento
  */
-export function obtenerNumeroListeners(tipo: string): number {
+export function obtenerNumeroListeners(tipo: TipoEvento): number {
   return eventBus.listenerCount(tipo);
 }
+
+/**
+ * Lista los manejadores registrados por tipo exacto y por patrón (para depuración)
+ * @returns Resumen de suscripciones del bus
+ */
+export function listarSuscripciones(): ResumenSuscripcion[] {
+  return eventBus.listarSuscripciones();
+}
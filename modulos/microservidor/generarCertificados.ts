@@ -0,0 +1,32 @@
+/**
+ * generarCertificados.ts
+ *
+ * Comando para preparar el modo seguro (wss://) del microservidor:
+ *   npm run certificados -- [ip] [directorio]
+ * Genera en config/tls (o el directorio indicado) la CA local, si no existe, y el certificado del servidor
+ * para la IP indicada o la de la red local. Muestra las huellas SHA-256 para fijarlas en los dispositivos.
+ * Después hay que activar `tls.habilitado` en config/config.json.
+ */
+
+import { generarCertificados } from './servidor/certificados';
+
+async function main(): Promise<void> {
+  const [ip, directorio = 'config/tls'] = process.argv.slice(2);
+
+  try {
+    const generados = await generarCertificados({ directorio, ip });
+
+    console.log(`Certificado del servidor generado para ${generados.ip}`);
+    console.log(`  CA local:     ${generados.certificadoCA}`);
+    console.log(`  Certificado:  ${generados.certificado}`);
+    console.log(`  Llave:        ${generados.llave}`);
+    console.log(`Huella SHA-256 de la CA:      ${generados.huellaCA}`);
+    console.log(`Huella SHA-256 del servidor:  ${generados.huella}`);
+    console.log('Instale ca.crt en los dispositivos o fije una de las huellas, y active "tls.habilitado" en config/config.json.');
+  } catch (error) {
+    console.error('No se pudieron generar los certificados (¿está instalado openssl?):', error);
+    process.exit(1);
+  }
+}
+
+main();
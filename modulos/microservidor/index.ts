@@ -6,10 +6,15 @@
  * Ejecuta el microservidor al correr `node index.ts`
  */
 
+import { IncomingMessage, ServerResponse } from 'http';
 import { cargarConfig, getConfig } from './config/config';
-import { iniciarServidorWebSocket } from './servidor/ws';
+import { iniciarServidorWebSocket, obtenerHuellaCertificado } from './servidor/ws';
 import { iniciarManejadorEventos } from './eventos/manejadorEventos';
-import { validarConfiguracion } from './validacion/autenticacion';
+import { atenderPeticionHttp } from './servidor/administracion';
+import { esPeticionSSE, atenderPeticionSSE } from './servidor/sse';
+import { iniciarAnuncios } from './servidor/descubrimiento';
+import { validarConfiguracion, cargarDispositivosDesdeArchivo } from './validacion/autenticacion';
+import { cargarPoliticaRoles } from '../core/politicaRoles';
 import { formatearFecha, crearEventoBase } from './utils/helpers';
 
 // Estado del servidor
@@ -28,7 +33,11 @@ async function iniciarMicroservidor(): Promise<void> {
     console.log('Cargando configuración...');
     await cargarConfig();
     
-    // 2. Validar estructura de la configuración
+    // 2. Cargar dispositivos autorizados y validar la configuración
+    console.log('Cargando dispositivos autorizados...');
+    await cargarDispositivosDesdeArchivo();
+    await cargarPoliticaRoles();
+    
     console.log('Validando configuración...');
     const configValida = validarConfiguracion();
     
@@ -40,18 +49,28 @@ async function iniciarMicroservidor(): Promise<void> {
     console.log('Iniciando sistema de eventos...');
     iniciarManejadorEventos();
     
-    // 4. Iniciar el servidor WebSocket
+    // 4. Iniciar el servidor WebSocket (y el transporte SSE y las consultas HTTP de administración en el mismo puerto)
     console.log('Iniciando servidor WebSocket...');
     const config = getConfig();
     const puerto = config.servidor?.puerto || 8080;
-    const servidor = await iniciarServidorWebSocket(puerto);
+    const servidor = await iniciarServidorWebSocket(puerto, atenderPeticion);
+    const huellaCertificado = obtenerHuellaCertificado();
+    
+    // Anunciar el servidor en la red local; sin anuncios los dispositivos aún pueden conectarse por IP
+    if (config.descubrimiento.habilitado) {
+      iniciarAnuncios(puerto).catch((error) => {
+        console.warn(`No se pudo anunciar el servidor en la red local: ${error instanceof Error ? error.message : error}`);
+      });
+    }
     
     // 5. Marcar como iniciado y emitir evento de listo
     servidorIniciado = true;
     const evento = crearEventoBase('microservidor:listo', {
       puerto,
       fecha: new Date().toISOString(),
-      version: config.version || '1.0.0'
+      version: config.version || '1.0.0',
+      seguro: huellaCertificado !== null,
+      huellaCertificado: huellaCertificado ?? undefined
     });
     
     // Emitir el evento a través del manejador de eventos
@@ -59,6 +78,10 @@ async function iniciarMicroservidor(): Promise<void> {
     
     console.log(`[${formatearFecha(new Date())}] Microservidor iniciado correctamente en puerto ${puerto}`);
     
+    if (huellaCertificado) {
+      console.log(`Huella SHA-256 del certificado: ${huellaCertificado}`);
+    }
+    
     // 6. Configurar manejador de cierre para una terminación limpia
     configurarCierreControlado();
     
@@ -67,6 +90,17 @@ async function iniciarMicroservidor(): Promise<void> {
   }
 }
 
+/**
+ * Reparte las peticiones HTTP del puerto del WebSocket entre el transporte SSE y las consultas de administración
+ */
+function atenderPeticion(peticion: IncomingMessage, respuesta: ServerResponse): void {
+  if (esPeticionSSE(peticion)) {
+    atenderPeticionSSE(peticion, respuesta);
+  } else {
+    atenderPeticionHttp(peticion, respuesta);
+  }
+}
+
 /**
  * Maneja errores durante el inicio del servidor
  */
@@ -84,13 +118,13 @@ function manejarErrorInicio(error: unknown): void {
   // Si el eventBus ya está inicializado, emitir eventos
   if (global.eventBus) {
     global.eventBus.emit('microservidor:errorConexion', evento);
-    global.eventBus.emit('core:errorDetectado', {
-      ...evento,
-      meta: {
-        ...evento.meta,
-        tipo: 'core:errorDetectado'
-      }
-    });
+    global.eventBus.emit('core:errorDetectado', crearEventoBase('core:errorDetectado', {
+      mensaje: 'Falló el inicio del microservidor',
+      error: errorMsg,
+      componente: 'index',
+      modulo: 'microservidor',
+      critico: true
+    }, 9));
   }
   
   // Terminar el proceso con código de error
@@ -0,0 +1,69 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { eventBus } from '../../core/eventBus';
+import { responder } from '../../core/solicitudes';
+import { atenderPeticionHttp } from './administracion';
+import { cargarListaAutorizada } from '../validacion/autenticacion';
+import type { CancelarSuscripcion } from '../../core/eventBus';
+
+let servidor: Server;
+let base: string;
+const suscripciones: CancelarSuscripcion[] = [];
+
+const credenciales = (id: string, llave: string) => ({
+  authorization: `Basic ${Buffer.from(`${id}:${llave}`).toString('base64')}`
+});
+
+describe('administracion', () => {
+  beforeAll(async () => {
+    cargarListaAutorizada([
+      { id: 'terminal-01', llave: 'llave-01', activo: true, rol: 'administrador' },
+      { id: 'terminal-02', llave: 'llave-02', activo: true, rol: 'operador' }
+    ]);
+
+    servidor = createServer(atenderPeticionHttp);
+    await new Promise<void>(resolver => servidor.listen(0, '127.0.0.1', resolver));
+    base = `http://127.0.0.1:${(servidor.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    suscripciones.splice(0).forEach(cancelar => cancelar());
+  });
+
+  afterAll(async () => {
+    await new Promise(resolver => servidor.close(resolver));
+  });
+
+  it('pide los datos al corazon por el bus y los devuelve', async () => {
+    const solicitudes = vi.fn((solicitud) => {
+      responder(solicitud, 'core:estadoActual', { clave: solicitud.payload.clave, valor: 3 });
+    });
+    suscripciones.push(eventBus.on('core:solicitarEstado', solicitudes));
+
+    const respuesta = await fetch(`${base}/estado?clave=pedidos`, { headers: credenciales('terminal-01', 'llave-01') });
+
+    expect(respuesta.status).toBe(200);
+    expect(await respuesta.json()).toEqual({ clave: 'pedidos', valor: 3 });
+    expect(solicitudes.mock.calls[0][0].meta.origen).toBe('microservidor');
+  });
+
+  it('informa de salud degradada si el corazon no contesta al ping', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const peticion = fetch(`${base}/salud`, { headers: credenciales('terminal-01', 'llave-01') });
+
+    await vi.waitFor(() => expect(eventBus.obtenerManejadores('core:pong').length).toBeGreaterThan(0));
+    vi.advanceTimersByTime(2000);
+    vi.useRealTimers();
+
+    const respuesta = await peticion;
+    expect(respuesta.status).toBe(503);
+    expect(await respuesta.json()).toMatchObject({ estado: 'degradado', corazon: 'sin respuesta' });
+  });
+
+  it('exige credenciales y un rol con acceso', async () => {
+    expect((await fetch(`${base}/salud`)).status).toBe(401);
+    expect((await fetch(`${base}/salud`, { headers: credenciales('terminal-01', 'otra') })).status).toBe(401);
+    expect((await fetch(`${base}/salud`, { headers: credenciales('terminal-02', 'llave-02') })).status).toBe(403);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * administracion.ts
+ *
+ * Consultas HTTP de administración y salud, servidas en el mismo puerto que el WebSocket (`administracion` en config.json):
+ * - GET /salud: el microservidor responde y el corazon contesta a un ping (503 si no lo hace).
+ * - GET /metricas: conexiones, memoria y contadores de cada etapa del broker.
+ * - GET /dispositivos: dispositivos conectados y presencia de todos los que se han conectado.
+ * - GET /estado[?clave=pedidos]: estado del corazon, completo o de una clave.
+ * Todas exigen autenticación HTTP Basic con el ID y la llave de un dispositivo activo
+ * cuyo rol esté en `administracion.roles`. Los datos del corazon se piden por el bus, como cualquier solicitud.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { getConfig } from '../config/config';
+import { solicitar } from '../../core/solicitudes';
+import { esDispositivoAutorizado, buscarDispositivo } from '../validacion/autenticacion';
+import { resolverRol } from '../../core/politicaRoles';
+import { obtenerNumeroConexiones, obtenerDispositivosConectados, obtenerHuellaCertificado } from './ws';
+import { listarPresencias } from './presencia';
+
+// Espera máxima de las respuestas del corazon
+const TIEMPO_RESPUESTA_CORAZON = 2000;
+
+// Código HTTP y cuerpo JSON de una consulta
+interface ResultadoConsulta {
+  codigo: number;
+  cuerpo: unknown;
+}
+
+type Consulta = (url: URL) => Promise<ResultadoConsulta>;
+
+const rutas: Record<string, Consulta> = {
+  '/salud': consultarSalud,
+  '/metricas': consultarMetricas,
+  '/dispositivos': consultarDispositivos,
+  '/estado': consultarEstado
+};
+
+/**
+ * Atiende una petición HTTP que no es de WebSocket
+ * @param peticion Petición recibida
+ * @param respuesta Respuesta a completar
+ */
+export function atenderPeticionHttp(peticion: IncomingMessage, respuesta: ServerResponse): void {
+  const url = new URL(peticion.url ?? '/', 'http://localhost');
+  const consulta = getConfig().administracion.habilitada ? rutas[url.pathname] : undefined;
+
+  if (!consulta) {
+    responderJSON(respuesta, 404, { error: 'Ruta no encontrada' });
+    return;
+  }
+
+  if (peticion.method !== 'GET') {
+    respuesta.setHeader('Allow', 'GET');
+    responderJSON(respuesta, 405, { error: 'Método no permitido' });
+    return;
+  }
+
+  const acceso = comprobarAcceso(peticion);
+
+  if (acceso !== 200) {
+    if (acceso === 401) {
+      respuesta.setHeader('WWW-Authenticate', 'Basic realm="PizzePOS"');
+    }
+    responderJSON(respuesta, acceso, { error: acceso === 401 ? 'Credenciales requeridas' : 'Rol sin acceso a la administración' });
+    return;
+  }
+
+  consulta(url)
+    .then(({ codigo, cuerpo }) => responderJSON(respuesta, codigo, cuerpo))
+    .catch((error) => responderJSON(respuesta, 500, { error: error instanceof Error ? error.message : String(error) }));
+}
+
+/**
+ * Comprueba las credenciales HTTP Basic (ID del dispositivo y llave) y el rol del dispositivo
+ * @returns 200 si puede consultar, 401 si faltan o fallan las credenciales, 403 si su rol no tiene acceso
+ */
+function comprobarAcceso(peticion: IncomingMessage): 200 | 401 | 403 {
+  const [esquema, credenciales] = (peticion.headers.authorization ?? '').split(' ');
+
+  if (esquema !== 'Basic' || !credenciales) {
+    return 401;
+  }
+
+  const decodificadas = Buffer.from(credenciales, 'base64').toString('utf8');
+  const separador = decodificadas.indexOf(':');
+
+  if (separador === -1) {
+    return 401;
+  }
+
+  const dispositivoId = decodificadas.slice(0, separador);
+
+  if (!esDispositivoAutorizado(dispositivoId, decodificadas.slice(separador + 1))) {
+    return 401;
+  }
+
+  const rol = resolverRol(buscarDispositivo(dispositivoId)?.rol);
+  return getConfig().administracion.roles.includes(rol) ? 200 : 403;
+}
+
+/**
+ * Salud del microservidor y del corazon
+ */
+async function consultarSalud(): Promise<ResultadoConsulta> {
+  const corazon = await solicitar('core:ping', {}, { timeoutMs: TIEMPO_RESPUESTA_CORAZON, origen: 'microservidor' })
+    .then(respuesta => respuesta.payload.estado)
+    .catch(() => 'sin respuesta');
+
+  return {
+    codigo: corazon === 'activo' ? 200 : 503,
+    cuerpo: {
+      estado: corazon === 'activo' ? 'ok' : 'degradado',
+      version: getConfig().version,
+      corazon,
+      conexiones: obtenerNumeroConexiones(),
+      seguro: obtenerHuellaCertificado() !== null,
+      tiempoActivoSegundos: Math.round(process.uptime()),
+      fecha: new Date().toISOString()
+    }
+  };
+}
+
+/**
+ * Métricas del proceso, de las conexiones y del broker
+ */
+async function consultarMetricas(): Promise<ResultadoConsulta> {
+  const broker = await solicitar('core:solicitarMetricas', {}, { timeoutMs: TIEMPO_RESPUESTA_CORAZON, origen: 'microservidor' })
+    .then(respuesta => respuesta.payload.etapas)
+    .catch(() => null);
+
+  return {
+    codigo: 200,
+    cuerpo: {
+      conexiones: obtenerNumeroConexiones(),
+      memoriaBytes: process.memoryUsage().rss,
+      tiempoActivoSegundos: Math.round(process.uptime()),
+      // null si el corazon no respondió
+      broker
+    }
+  };
+}
+
+/**
+ * Dispositivos conectados y su presencia
+ */
+async function consultarDispositivos(): Promise<ResultadoConsulta> {
+  return {
+    codigo: 200,
+    cuerpo: {
+      conectados: obtenerDispositivosConectados(),
+      presencias: listarPresencias()
+    }
+  };
+}
+
+/**
+ * Estado del corazon, completo o de la clave indicada en ?clave=
+ */
+async function consultarEstado(url: URL): Promise<ResultadoConsulta> {
+  const clave = url.searchParams.get('clave') ?? undefined;
+
+  try {
+    const respuesta = await solicitar('core:solicitarEstado', { clave }, { timeoutMs: TIEMPO_RESPUESTA_CORAZON, origen: 'microservidor' });
+    return { codigo: 200, cuerpo: respuesta.payload };
+  } catch {
+    return { codigo: 503, cuerpo: { error: 'El corazon no respondió' } };
+  }
+}
+
+/**
+ * Envía una respuesta JSON
+ */
+function responderJSON(respuesta: ServerResponse, codigo: number, cuerpo: unknown): void {
+  respuesta.writeHead(codigo, { 'Content-Type': 'application/json; charset=utf-8' });
+  respuesta.end(JSON.stringify(cuerpo));
+}
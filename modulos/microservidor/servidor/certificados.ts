@@ -0,0 +1,171 @@
+/**
+ * certificados.ts
+ *
+ * Certificados para el modo seguro (wss://) del servidor WebSocket (`tls` en config.json).
+ * - Carga el certificado y la llave privada del servidor y calcula la huella SHA-256 del certificado,
+ *   que los dispositivos pueden fijar (pinning) para no depender de una CA pública.
+ * - Genera con `openssl` una CA local y un certificado de servidor para la IP de la red local
+ *   (ver generarCertificados.ts). Si la CA ya existe se reutiliza, de modo que los dispositivos que confían
+ *   en ella siguen funcionando aunque cambie la IP del servidor.
+ */
+
+import { promises as fs } from 'fs';
+import { X509Certificate } from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { networkInterfaces } from 'os';
+import path from 'path';
+
+const ejecutar = promisify(execFile);
+
+/**
+ * Certificado y llave listos para el servidor HTTPS
+ */
+export interface CredencialesTLS {
+  certificado: Buffer;
+  llave: Buffer;
+  // Huella SHA-256 del certificado ("AB:CD:...")
+  huella: string;
+}
+
+/**
+ * Opciones para generar los certificados
+ */
+export interface OpcionesGeneracion {
+  // Carpeta donde se guardan CA y certificado del servidor
+  directorio: string;
+  // IP de la red local del servidor (por defecto, la primera IPv4 no interna)
+  ip?: string;
+  // Nombres DNS adicionales para el certificado del servidor
+  nombres?: string[];
+  // Validez del certificado del servidor
+  diasValidez?: number;
+}
+
+/**
+ * Archivos generados y huellas de sus certificados
+ */
+export interface CertificadosGenerados {
+  ip: string;
+  certificadoCA: string;
+  certificado: string;
+  llave: string;
+  huellaCA: string;
+  huella: string;
+}
+
+/**
+ * Lee el certificado y la llave del servidor
+ * @param rutaCertificado Ruta del certificado PEM (relativa al directorio de trabajo o absoluta)
+ * @param rutaLlave Ruta de la llave privada PEM
+ * @throws Error si no se pueden leer o el certificado no es válido
+ */
+export async function cargarCredencialesTLS(rutaCertificado: string, rutaLlave: string): Promise<CredencialesTLS> {
+  const certificado = await fs.readFile(path.resolve(rutaCertificado));
+  const llave = await fs.readFile(path.resolve(rutaLlave));
+
+  return { certificado, llave, huella: calcularHuella(certificado) };
+}
+
+/**
+ * Calcula la huella SHA-256 de un certificado PEM
+ * @param certificado Certificado en formato PEM
+ */
+export function calcularHuella(certificado: Buffer | string): string {
+  return new X509Certificate(certificado).fingerprint256;
+}
+
+/**
+ * Devuelve la primera IPv4 no interna del equipo
+ * @returns La IP, o 127.0.0.1 si no hay ninguna interfaz de red local
+ */
+export function obtenerIpLocal(): string {
+  const interfaces = Object.values(networkInterfaces()).flat();
+  const externa = interfaces.find(direccion => direccion && direccion.family === 'IPv4' && !direccion.internal);
+
+  return externa?.address ?? '127.0.0.1';
+}
+
+/**
+ * Genera (o reutiliza) la CA local y un certificado de servidor firmado por ella
+ * @param opciones Carpeta de salida, IP y validez
+ * @throws Error si `openssl` no está disponible o falla
+ */
+export async function generarCertificados(opciones: OpcionesGeneracion): Promise<CertificadosGenerados> {
+  const directorio = path.resolve(opciones.directorio);
+  const ip = opciones.ip ?? obtenerIpLocal();
+  const dias = opciones.diasValidez ?? 825;
+
+  const certificadoCA = path.join(directorio, 'ca.crt');
+  const llaveCA = path.join(directorio, 'ca.key');
+  const certificado = path.join(directorio, 'servidor.crt');
+  const llave = path.join(directorio, 'servidor.key');
+  const solicitud = path.join(directorio, 'servidor.csr');
+  const extensiones = path.join(directorio, 'servidor.ext');
+
+  await fs.mkdir(directorio, { recursive: true });
+
+  if (!(await existe(certificadoCA)) || !(await existe(llaveCA))) {
+    await ejecutar('openssl', [
+      'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-sha256', '-days', '3650',
+      '-keyout', llaveCA, '-out', certificadoCA,
+      '-subj', '/CN=PizzePOS CA local',
+      '-addext', 'basicConstraints=critical,CA:TRUE',
+      '-addext', 'keyUsage=critical,keyCertSign,cRLSign'
+    ]);
+    await fs.chmod(llaveCA, 0o600);
+  }
+
+  const nombresAlternativos = [
+    `IP:${ip}`,
+    'IP:127.0.0.1',
+    'DNS:localhost',
+    ...(opciones.nombres ?? []).map(nombre => `DNS:${nombre}`)
+  ];
+
+  await fs.writeFile(extensiones, [
+    'basicConstraints=CA:FALSE',
+    'keyUsage=critical,digitalSignature,keyEncipherment',
+    'extendedKeyUsage=serverAuth',
+    `subjectAltName=${nombresAlternativos.join(',')}`
+  ].join('\n'));
+
+  try {
+    await ejecutar('openssl', [
+      'req', '-newkey', 'rsa:2048', '-nodes', '-sha256',
+      '-keyout', llave, '-out', solicitud,
+      '-subj', `/CN=${ip}`
+    ]);
+    await fs.chmod(llave, 0o600);
+
+    await ejecutar('openssl', [
+      'x509', '-req', '-sha256', '-days', String(dias),
+      '-in', solicitud, '-CA', certificadoCA, '-CAkey', llaveCA, '-CAcreateserial',
+      '-extfile', extensiones, '-out', certificado
+    ]);
+  } finally {
+    await fs.rm(solicitud, { force: true });
+    await fs.rm(extensiones, { force: true });
+  }
+
+  return {
+    ip,
+    certificadoCA,
+    certificado,
+    llave,
+    huellaCA: calcularHuella(await fs.readFile(certificadoCA)),
+    huella: calcularHuella(await fs.readFile(certificado))
+  };
+}
+
+/**
+ * Indica si un archivo existe
+ */
+async function existe(ruta: string): Promise<boolean> {
+  try {
+    await fs.access(ruta);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * descubrimiento.ts
+ *
+ * Anuncio del microservidor en la red local, para que los dispositivos lo encuentren sin tener configurada
+ * su IP, que cambia cada vez que el router reinicia (`descubrimiento` en config.json, protocolo en protocolo.ts).
+ * Cada `intervalo` difunde por UDP un anuncio con el puerto, la versión y la huella del certificado a la dirección
+ * de broadcast de cada interfaz IPv4, y responde al momento a las consultas de los dispositivos que acaban de arrancar.
+ * Los dispositivos usan cliente/descubrimiento.ts.
+ */
+
+import { createSocket, Socket } from 'dgram';
+import { networkInterfaces, hostname, NetworkInterfaceInfo } from 'os';
+import { getConfig } from '../config/config';
+import { obtenerHuellaCertificado } from './ws';
+import { AnuncioServidor, ConsultaDescubrimientoSchema, SERVICIO_DESCUBRIMIENTO } from './protocolo';
+
+// Socket UDP de anuncios y consultas
+let socket: Socket | null = null;
+
+// Temporizador de los anuncios periódicos
+let temporizadorAnuncios: NodeJS.Timeout | null = null;
+
+/**
+ * Empieza a anunciar el servidor en la red local
+ * @param puertoServidor Puerto en el que escucha el WebSocket
+ * @throws Error si no se puede abrir el puerto UDP de descubrimiento
+ */
+export function iniciarAnuncios(puertoServidor: number): Promise<void> {
+  const { puerto, intervalo } = getConfig().descubrimiento;
+  const huellaCertificado = obtenerHuellaCertificado();
+  const anuncio: AnuncioServidor = {
+    servicio: SERVICIO_DESCUBRIMIENTO,
+    nombre: hostname(),
+    version: getConfig().version,
+    puerto: puertoServidor,
+    seguro: huellaCertificado !== null,
+    huellaCertificado: huellaCertificado ?? undefined
+  };
+  const anuncioSerializado = Buffer.from(JSON.stringify(anuncio));
+
+  detenerAnuncios();
+
+  return new Promise((resolve, reject) => {
+    const nuevo = createSocket({ type: 'udp4', reuseAddr: true });
+
+    nuevo.once('error', reject);
+
+    // Respuesta directa a quien pregunta; el resto (incluidos nuestros propios anuncios) se ignora
+    nuevo.on('message', (mensaje, remitente) => {
+      if (esConsulta(mensaje)) {
+        nuevo.send(anuncioSerializado, remitente.port, remitente.address);
+      }
+    });
+
+    nuevo.bind(puerto, () => {
+      nuevo.removeListener('error', reject);
+      nuevo.on('error', (error) => console.error('Error en el descubrimiento:', error.message));
+      nuevo.setBroadcast(true);
+      nuevo.unref();
+      socket = nuevo;
+
+      difundir(nuevo, anuncioSerializado, puerto);
+      temporizadorAnuncios = setInterval(() => difundir(nuevo, anuncioSerializado, puerto), intervalo);
+      temporizadorAnuncios.unref();
+
+      console.log(`Anunciando el servidor en la red local (UDP ${puerto})`);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Deja de anunciar el servidor
+ */
+export function detenerAnuncios(): void {
+  if (temporizadorAnuncios) {
+    clearInterval(temporizadorAnuncios);
+    temporizadorAnuncios = null;
+  }
+
+  if (socket) {
+    socket.close();
+    socket = null;
+  }
+}
+
+/**
+ * Envía el anuncio a la dirección de broadcast de cada red local. Las direcciones se calculan en cada
+ * anuncio porque la IP del servidor puede cambiar mientras está en marcha.
+ */
+function difundir(socketAnuncios: Socket, anuncio: Buffer, puerto: number): void {
+  direccionesBroadcast().forEach((direccion) => {
+    // Sin red (p. ej. mientras el router reinicia) el envío falla; el siguiente anuncio lo reintenta
+    socketAnuncios.send(anuncio, puerto, direccion, () => undefined);
+  });
+}
+
+/**
+ * Direcciones de broadcast de las interfaces IPv4 no internas
+ * @returns Las direcciones, o la de broadcast limitado (255.255.255.255) si no hay ninguna interfaz
+ */
+function direccionesBroadcast(): string[] {
+  const direcciones = Object.values(networkInterfaces())
+    .flat()
+    .filter((direccion): direccion is NetworkInterfaceInfo => direccion !== undefined && direccion.family === 'IPv4' && !direccion.internal)
+    .map(({ address, netmask }) => {
+      const mascara = netmask.split('.').map(Number);
+      return address.split('.').map((octeto, i) => Number(octeto) | (~mascara[i] & 0xff)).join('.');
+    });
+
+  return direcciones.length > 0 ? Array.from(new Set(direcciones)) : ['255.255.255.255'];
+}
+
+/**
+ * Indica si un datagrama recibido es una consulta de descubrimiento
+ */
+function esConsulta(mensaje: Buffer): boolean {
+  try {
+    return ConsultaDescubrimientoSchema.safeParse(JSON.parse(mensaje.toString())).success;
+  } catch {
+    return false;
+  }
+}
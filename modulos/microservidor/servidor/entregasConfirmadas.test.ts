@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { eventBus } from '../../core/eventBus';
+import {
+  requiereConfirmacion,
+  esperarConfirmacion,
+  confirmarEntrega,
+  reenviarPendientes,
+  descartarEntregas
+} from './entregasConfirmadas';
+import type { CancelarSuscripcion } from '../../core/eventBus';
+
+const entregaConfirmada = {
+  tipos: ['flujoPedidos:*'],
+  intentosMaximos: 3,
+  esperaInicial: 100,
+  esperaMaxima: 150
+};
+
+vi.mock('../config/config', () => ({
+  getConfig: () => ({ entregaConfirmada })
+}));
+
+const suscripciones: CancelarSuscripcion[] = [];
+
+// Cada prueba usa su propio dispositivo: las entregas pendientes son por dispositivo
+let contador = 0;
+const nuevoDispositivo = () => `terminal-${++contador}`;
+
+describe('entregasConfirmadas', () => {
+  let fallidas: Array<{ dispositivoId: string; eventoId: string; intentos: number; motivo: string }>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    fallidas = [];
+    suscripciones.push(eventBus.on('microservidor:entregaFallida', evento => fallidas.push(evento.payload)));
+  });
+
+  afterEach(() => {
+    suscripciones.splice(0).forEach(cancelar => cancelar());
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('exige confirmación solo a los tipos configurados', () => {
+    expect(requiereConfirmacion('flujoPedidos:pedidoCreado')).toBe(true);
+    expect(requiereConfirmacion('core:logGenerado')).toBe(false);
+  });
+
+  it('reenvía con espera creciente y acotada hasta agotar los intentos', () => {
+    const dispositivoId = nuevoDispositivo();
+    const id = randomUUID();
+    const reenviar = vi.fn(() => true);
+
+    esperarConfirmacion(dispositivoId, id, 'flujoPedidos:pedidoCreado', '{"evento":1}', reenviar);
+
+    vi.advanceTimersByTime(100);
+    expect(reenviar).toHaveBeenCalledTimes(1);
+
+    // 200 ms según la progresión, pero la espera máxima es 150
+    vi.advanceTimersByTime(150);
+    expect(reenviar).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(150);
+    expect(reenviar).toHaveBeenCalledTimes(2);
+    expect(fallidas).toEqual([expect.objectContaining({ dispositivoId, eventoId: id, intentos: 3, motivo: 'Sin confirmación tras 3 intentos' })]);
+    expect(confirmarEntrega(dispositivoId, id)).toBe(false);
+  });
+
+  it('deja de reenviar un evento confirmado', () => {
+    const dispositivoId = nuevoDispositivo();
+    const id = randomUUID();
+    const reenviar = vi.fn(() => true);
+
+    esperarConfirmacion(dispositivoId, id, 'flujoPedidos:pedidoCreado', '{"evento":1}', reenviar);
+    expect(confirmarEntrega(dispositivoId, id)).toBe(true);
+
+    vi.advanceTimersByTime(1000);
+    expect(reenviar).not.toHaveBeenCalled();
+    expect(fallidas).toEqual([]);
+  });
+
+  it('al volver el dispositivo reenvía lo pendiente salvo lo que ya recibió al reanudar la sesión', () => {
+    const dispositivoId = nuevoDispositivo();
+    const reenviar = vi.fn(() => true);
+
+    esperarConfirmacion(dispositivoId, randomUUID(), 'flujoPedidos:pedidoCreado', '{"evento":1}', reenviar);
+    esperarConfirmacion(dispositivoId, randomUUID(), 'flujoPedidos:pedidoListo', '{"evento":2}', reenviar);
+
+    reenviarPendientes(dispositivoId, ['{"evento":1}']);
+
+    expect(reenviar.mock.calls).toEqual([['{"evento":2}']]);
+  });
+
+  it('informa de cada entrega abandonada al revocar el acceso', () => {
+    const dispositivoId = nuevoDispositivo();
+    const reenviar = vi.fn(() => true);
+
+    esperarConfirmacion(dispositivoId, randomUUID(), 'flujoPedidos:pedidoCreado', '{"evento":1}', reenviar);
+    esperarConfirmacion(dispositivoId, randomUUID(), 'flujoPedidos:pedidoListo', '{"evento":2}', reenviar);
+
+    descartarEntregas(dispositivoId, 'Acceso revocado');
+    vi.advanceTimersByTime(1000);
+
+    expect(reenviar).not.toHaveBeenCalled();
+    expect(fallidas.map(fallida => fallida.motivo)).toEqual(['Acceso revocado', 'Acceso revocado']);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * entregasConfirmadas.ts
+ *
+ * Entrega "al menos una vez" de los tipos de evento configurados en `entregaConfirmada.tipos`.
+ * El dispositivo confirma cada evento recibido con { control: 'confirmar', id: meta.id }; mientras no lo haga,
+ * el evento se reenvía con espera creciente (`esperaInicial`, el doble en cada intento, hasta `esperaMaxima`).
+ * Las entregas pendientes son por dispositivo y no por conexión: sobreviven a las reconexiones y se reenvían
+ * en cuanto el dispositivo vuelve a autenticarse. Tras `intentosMaximos` intentos sin confirmación se emite
+ * `microservidor:entregaFallida`. El dispositivo puede recibir un evento repetido y debe descartarlo por meta.id.
+ */
+
+import { getConfig } from '../config/config';
+import { crearEventoBase } from '../utils/helpers';
+import { compilarPatron } from '../../core/eventBus';
+
+/**
+ * Envía un mensaje ya serializado al dispositivo; devuelve false si no está conectado
+ */
+export type FuncionReenvio = (mensajeJSON: string) => boolean;
+
+// Evento a la espera de confirmación
+interface EntregaPendiente {
+  tipo: string;
+  mensajeJSON: string;
+  // Intentos hechos, incluido el envío original (aunque el dispositivo estuviera desconectado)
+  intentos: number;
+  reenviar: FuncionReenvio;
+  temporizador: NodeJS.Timeout | null;
+}
+
+// Entregas pendientes por ID de dispositivo y, dentro de cada uno, por meta.id
+const pendientes = new Map<string, Map<string, EntregaPendiente>>();
+
+// Patrones de `entregaConfirmada.tipos` compilados, junto con la lista de la que salen
+let patronesCompilados: { origen: string[]; patrones: RegExp[] } = { origen: [], patrones: [] };
+
+/**
+ * Indica si un tipo de evento requiere confirmación del dispositivo
+ * @param tipo Tipo del evento
+ */
+export function requiereConfirmacion(tipo: string): boolean {
+  const { tipos } = getConfig().entregaConfirmada;
+
+  if (patronesCompilados.origen !== tipos) {
+    patronesCompilados = { origen: tipos, patrones: tipos.map(compilarPatron) };
+  }
+
+  return patronesCompilados.patrones.some(patron => patron.test(tipo));
+}
+
+/**
+ * Deja pendiente de confirmación un evento que se acaba de enviar (o guardar, si el dispositivo no estaba conectado)
+ * @param dispositivoId ID del dispositivo destinatario
+ * @param id meta.id del evento
+ * @param tipo Tipo del evento
+ * @param mensajeJSON Evento serializado
+ * @param reenviar Envía el evento al dispositivo en los reintentos
+ */
+export function esperarConfirmacion(
+  dispositivoId: string,
+  id: string,
+  tipo: string,
+  mensajeJSON: string,
+  reenviar: FuncionReenvio
+): void {
+  let delDispositivo = pendientes.get(dispositivoId);
+
+  if (!delDispositivo) {
+    delDispositivo = new Map();
+    pendientes.set(dispositivoId, delDispositivo);
+  }
+
+  // Un evento repetido reinicia su cuenta
+  detenerTemporizador(delDispositivo.get(id));
+
+  const pendiente: EntregaPendiente = { tipo, mensajeJSON, intentos: 1, reenviar, temporizador: null };
+  delDispositivo.set(id, pendiente);
+  programarReintento(dispositivoId, id, pendiente);
+}
+
+/**
+ * Registra la confirmación de un evento por parte del dispositivo
+ * @param dispositivoId ID del dispositivo
+ * @param id meta.id del evento confirmado
+ * @returns true si el evento estaba pendiente
+ */
+export function confirmarEntrega(dispositivoId: string, id: string): boolean {
+  const delDispositivo = pendientes.get(dispositivoId);
+  const pendiente = delDispositivo?.get(id);
+
+  if (!delDispositivo || !pendiente) {
+    return false;
+  }
+
+  detenerTemporizador(pendiente);
+  delDispositivo.delete(id);
+
+  if (delDispositivo.size === 0) {
+    pendientes.delete(dispositivoId);
+  }
+
+  return true;
+}
+
+/**
+ * Reenvía ya, sin esperar al siguiente reintento, los eventos pendientes de un dispositivo que acaba de autenticarse
+ * @param dispositivoId ID del dispositivo
+ * @param yaEnviados Eventos serializados que el dispositivo acaba de recibir por otra vía (reanudación de sesión)
+ */
+export function reenviarPendientes(dispositivoId: string, yaEnviados: string[] = []): void {
+  const omitir = new Set(yaEnviados);
+
+  // No cuenta como intento: los reintentos programados siguen su curso
+  pendientes.get(dispositivoId)?.forEach((pendiente) => {
+    if (!omitir.has(pendiente.mensajeJSON)) {
+      pendiente.reenviar(pendiente.mensajeJSON);
+    }
+  });
+}
+
+/**
+ * Abandona las entregas pendientes de un dispositivo (p. ej. al revocar su acceso), informando de cada una
+ * @param dispositivoId ID del dispositivo
+ * @param motivo Razón por la que no se entregarán
+ */
+export function descartarEntregas(dispositivoId: string, motivo: string): void {
+  const delDispositivo = pendientes.get(dispositivoId);
+
+  if (!delDispositivo) {
+    return;
+  }
+
+  pendientes.delete(dispositivoId);
+  delDispositivo.forEach((pendiente, id) => {
+    detenerTemporizador(pendiente);
+    emitirEventoEntregaFallida(dispositivoId, id, pendiente, motivo);
+  });
+}
+
+/**
+ * Programa el siguiente intento de un evento pendiente, o lo da por fallido si ya agotó los intentos
+ */
+function programarReintento(dispositivoId: string, id: string, pendiente: EntregaPendiente): void {
+  const { intentosMaximos, esperaInicial, esperaMaxima } = getConfig().entregaConfirmada;
+  const espera = Math.min(esperaInicial * 2 ** (pendiente.intentos - 1), esperaMaxima);
+
+  pendiente.temporizador = setTimeout(() => {
+    if (pendientes.get(dispositivoId)?.get(id) !== pendiente) {
+      return;
+    }
+
+    if (pendiente.intentos >= intentosMaximos) {
+      confirmarEntrega(dispositivoId, id);
+      emitirEventoEntregaFallida(dispositivoId, id, pendiente, `Sin confirmación tras ${pendiente.intentos} intentos`);
+      return;
+    }
+
+    pendiente.intentos++;
+    pendiente.reenviar(pendiente.mensajeJSON);
+    programarReintento(dispositivoId, id, pendiente);
+  }, espera);
+  pendiente.temporizador.unref();
+}
+
+/**
+ * Cancela el reintento programado de un evento pendiente
+ */
+function detenerTemporizador(pendiente: EntregaPendiente | undefined): void {
+  if (pendiente?.temporizador) {
+    clearTimeout(pendiente.temporizador);
+    pendiente.temporizador = null;
+  }
+}
+
+/**
+ * Emite un evento informando de que un evento no llegó a confirmarse
+ */
+function emitirEventoEntregaFallida(dispositivoId: string, eventoId: string, pendiente: EntregaPendiente, motivo: string): void {
+  console.warn(`Entrega fallida de ${pendiente.tipo} (${eventoId}) a ${dispositivoId}: ${motivo}`);
+
+  const evento = crearEventoBase('microservidor:entregaFallida', {
+    dispositivoId,
+    eventoId,
+    tipoEvento: pendiente.tipo,
+    intentos: pendiente.intentos,
+    motivo,
+    fecha: new Date().toISOString()
+  }, 8);
+
+  global.eventBus.emit('microservidor:entregaFallida', evento);
+}
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { comprobarLimite } from './limitador';
+
+vi.mock('../config/config', () => ({
+  getConfig: () => ({
+    limites: {
+      porDispositivo: { capacidad: 5, recargaPorSegundo: 1 },
+      porTipo: { 'flujoPedidos:*': { capacidad: 2, recargaPorSegundo: 1 } },
+      maxExcesosPorMinuto: 3
+    }
+  })
+}));
+
+// Cada prueba usa su propio dispositivo: las cubetas se conservan entre conexiones
+let contador = 0;
+const nuevoDispositivo = () => `terminal-${++contador}`;
+
+function consumir(dispositivoId: string, veces: number, tipo?: string) {
+  return Array.from({ length: veces }, () => comprobarLimite(dispositivoId, tipo));
+}
+
+describe('limitador', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('tolera una ráfaga hasta la capacidad y descarta el resto indicando cuándo reintentar', () => {
+    const dispositivoId = nuevoDispositivo();
+
+    expect(consumir(dispositivoId, 5).every(resultado => resultado.permitido)).toBe(true);
+    expect(comprobarLimite(dispositivoId)).toEqual({ permitido: false, reintentarEnMs: 1000, desconectar: false });
+  });
+
+  it('rellena la cubeta al ritmo configurado', () => {
+    const dispositivoId = nuevoDispositivo();
+    consumir(dispositivoId, 5);
+
+    vi.advanceTimersByTime(2000);
+
+    expect(consumir(dispositivoId, 3).map(resultado => resultado.permitido)).toEqual([true, true, false]);
+  });
+
+  it('aplica además el límite del patrón de tipo sin agotar el del dispositivo', () => {
+    const dispositivoId = nuevoDispositivo();
+
+    expect(consumir(dispositivoId, 3, 'flujoPedidos:pedidoCreado').map(resultado => resultado.permitido)).toEqual([true, true, false]);
+    expect(comprobarLimite(dispositivoId, 'core:ping').permitido).toBe(true);
+    expect(comprobarLimite(dispositivoId).permitido).toBe(true);
+  });
+
+  it('pide desconectar al dispositivo que supera los descartes por minuto, y lo olvida pasado el minuto', () => {
+    const dispositivoId = nuevoDispositivo();
+    consumir(dispositivoId, 5);
+
+    const descartes = consumir(dispositivoId, 4);
+    expect(descartes.map(resultado => !resultado.permitido && resultado.desconectar)).toEqual([false, false, false, true]);
+
+    vi.advanceTimersByTime(60000);
+    consumir(dispositivoId, 5);
+    expect(comprobarLimite(dispositivoId)).toMatchObject({ permitido: false, desconectar: false });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * limitador.ts
+ *
+ * Limitación del ritmo de mensajes de cada dispositivo con cubetas de fichas (`limites` en config.json).
+ * Cada mensaje consume una ficha de la cubeta del dispositivo y, si es un evento cuyo tipo coincide con
+ * un patrón de `limites.porTipo`, otra de la cubeta de ese patrón. Las cubetas se rellenan a un ritmo fijo
+ * hasta su capacidad, de modo que se toleran ráfagas cortas pero no un flujo sostenido.
+ * Un mensaje sin fichas se descarta; si un dispositivo acumula más de `maxExcesosPorMinuto` descartes
+ * en el último minuto, se indica que hay que desconectarlo.
+ */
+
+import { getConfig } from '../config/config';
+import { compilarPatron } from '../../core/eventBus';
+
+// Límite de una cubeta
+interface Limite {
+  capacidad: number;
+  recargaPorSegundo: number;
+}
+
+interface Cubeta {
+  fichas: number;
+  actualizada: number;
+}
+
+/**
+ * Resultado de comprobar un mensaje
+ */
+export type ResultadoLimite =
+  | { permitido: true }
+  | { permitido: false; reintentarEnMs: number; desconectar: boolean };
+
+// Cubetas por dispositivo ("<id>") y por dispositivo y patrón de tipo ("<id>|<patrón>");
+// se conservan entre conexiones para que reconectar no las rellene
+const cubetas = new Map<string, Cubeta>();
+
+// Instantes de los mensajes descartados en el último minuto, por dispositivo
+const excesos = new Map<string, number[]>();
+
+// Patrones de `limites.porTipo` ya compilados
+const patronesCompilados = new Map<string, RegExp>();
+
+/**
+ * Consume las fichas que corresponden a un mensaje de un dispositivo
+ * @param dispositivoId ID del dispositivo emisor
+ * @param tipo Tipo del evento (sin tipo, p. ej. en mensajes de control, solo cuenta el límite del dispositivo)
+ * @returns Si el mensaje puede procesarse y, si no, cuánto esperar y si hay que desconectar al dispositivo
+ */
+export function comprobarLimite(dispositivoId: string, tipo?: string): ResultadoLimite {
+  const { porDispositivo, porTipo, maxExcesosPorMinuto } = getConfig().limites;
+  const ahora = Date.now();
+  const aplicables: { cubeta: Cubeta; limite: Limite }[] = [
+    { cubeta: recargar(dispositivoId, porDispositivo, ahora), limite: porDispositivo }
+  ];
+
+  const patron = tipo ? Object.keys(porTipo).find(candidato => compilar(candidato).test(tipo)) : undefined;
+  if (patron) {
+    aplicables.push({ cubeta: recargar(`${dispositivoId}|${patron}`, porTipo[patron], ahora), limite: porTipo[patron] });
+  }
+
+  const agotadas = aplicables.filter(({ cubeta }) => cubeta.fichas < 1);
+
+  if (agotadas.length === 0) {
+    aplicables.forEach(({ cubeta }) => { cubeta.fichas -= 1; });
+    return { permitido: true };
+  }
+
+  const reintentarEnMs = Math.max(...agotadas.map(({ cubeta, limite }) =>
+    Math.ceil((1 - cubeta.fichas) / limite.recargaPorSegundo * 1000)
+  ));
+
+  const recientes = (excesos.get(dispositivoId) ?? []).filter(instante => ahora - instante < 60000);
+  recientes.push(ahora);
+  excesos.set(dispositivoId, recientes);
+
+  return { permitido: false, reintentarEnMs, desconectar: recientes.length > maxExcesosPorMinuto };
+}
+
+/**
+ * Rellena una cubeta según el tiempo transcurrido desde su último uso (una cubeta nueva empieza llena)
+ */
+function recargar(clave: string, limite: Limite, ahora: number): Cubeta {
+  const cubeta = cubetas.get(clave) ?? { fichas: limite.capacidad, actualizada: ahora };
+
+  cubeta.fichas = Math.min(limite.capacidad, cubeta.fichas + (ahora - cubeta.actualizada) / 1000 * limite.recargaPorSegundo);
+  cubeta.actualizada = ahora;
+  cubetas.set(clave, cubeta);
+
+  return cubeta;
+}
+
+/**
+ * Compila un patrón de `limites.porTipo`, reutilizando la compilación anterior
+ */
+function compilar(patron: string): RegExp {
+  let compilado = patronesCompilados.get(patron);
+
+  if (!compilado) {
+    compilado = compilarPatron(patron);
+    patronesCompilados.set(patron, compilado);
+  }
+
+  return compilado;
+}
@@ -0,0 +1,284 @@
+/**
+ * msgpack.ts
+ *
+ * Codificación MessagePack (https://msgpack.org) para el subprotocolo binario del WebSocket (ver protocolo.ts).
+ * Solo cubre los valores que puede llevar un evento serializable en JSON: nil, booleanos, números, cadenas,
+ * arrays y mapas con claves de texto. Los enteros seguros se codifican en el formato más corto y el resto
+ * de números como float64. Al decodificar se rechazan los tipos sin equivalente en JSON (bin, ext).
+ */
+
+// Zona de escritura que crece a medida que se codifica
+interface Escritor {
+  buffer: Buffer;
+  posicion: number;
+}
+
+// Zona de lectura de un mensaje recibido
+interface Lector {
+  buffer: Buffer;
+  posicion: number;
+}
+
+// Última codificación hecha desde JSON: una difusión envía el mismo mensaje a todas las conexiones
+let ultimaCodificacion: { mensajeJSON: string; binario: Buffer } | null = null;
+
+/**
+ * Codifica un valor JSON (p. ej. el resultado de JSON.parse) en MessagePack
+ * @param valor Valor a codificar
+ */
+export function codificarMsgpack(valor: unknown): Buffer {
+  const escritor: Escritor = { buffer: Buffer.allocUnsafe(256), posicion: 0 };
+  escribirValor(escritor, valor);
+  return escritor.buffer.subarray(0, escritor.posicion);
+}
+
+/**
+ * Codifica en MessagePack un mensaje ya serializado en JSON, reutilizando el resultado si es el mismo de la vez anterior
+ * @param mensajeJSON Mensaje serializado
+ */
+export function codificarMsgpackDesdeJSON(mensajeJSON: string): Buffer {
+  if (ultimaCodificacion?.mensajeJSON !== mensajeJSON) {
+    ultimaCodificacion = { mensajeJSON, binario: codificarMsgpack(JSON.parse(mensajeJSON)) };
+  }
+
+  return ultimaCodificacion.binario;
+}
+
+/**
+ * Decodifica un mensaje MessagePack
+ * @param buffer Mensaje recibido
+ * @throws Error si el mensaje está mal formado, usa tipos no soportados o le sobran bytes
+ */
+export function decodificarMsgpack(buffer: Buffer): unknown {
+  const lector: Lector = { buffer, posicion: 0 };
+  const valor = leerValor(lector);
+
+  if (lector.posicion !== buffer.length) {
+    throw new Error('Mensaje MessagePack con bytes sobrantes');
+  }
+
+  return valor;
+}
+
+/**
+ * Reserva bytes al final del escritor, ampliándolo si hace falta.
+ * Como puede reemplazar `escritor.buffer`, hay que llamarla antes de tomar el buffer para escribir.
+ * @returns Posición donde escribirlos
+ */
+function reservar(escritor: Escritor, bytes: number): number {
+  const necesario = escritor.posicion + bytes;
+
+  if (necesario > escritor.buffer.length) {
+    const ampliado = Buffer.allocUnsafe(Math.max(necesario, escritor.buffer.length * 2));
+    escritor.buffer.copy(ampliado, 0, 0, escritor.posicion);
+    escritor.buffer = ampliado;
+  }
+
+  const inicio = escritor.posicion;
+  escritor.posicion = necesario;
+  return inicio;
+}
+
+function escribirByte(escritor: Escritor, byte: number): void {
+  const inicio = reservar(escritor, 1);
+  escritor.buffer[inicio] = byte;
+}
+
+function escribirValor(escritor: Escritor, valor: unknown): void {
+  if (valor === null || valor === undefined) {
+    escribirByte(escritor, 0xc0);
+  } else if (typeof valor === 'boolean') {
+    escribirByte(escritor, valor ? 0xc3 : 0xc2);
+  } else if (typeof valor === 'number') {
+    escribirNumero(escritor, valor);
+  } else if (typeof valor === 'string') {
+    escribirCadena(escritor, valor);
+  } else if (Array.isArray(valor)) {
+    escribirCabecera(escritor, valor.length, 0x90, 0xdc, 0xdd);
+    valor.forEach(elemento => escribirValor(escritor, elemento));
+  } else if (typeof valor === 'object') {
+    const claves = Object.keys(valor);
+    escribirCabecera(escritor, claves.length, 0x80, 0xde, 0xdf);
+    claves.forEach((clave) => {
+      escribirCadena(escritor, clave);
+      escribirValor(escritor, (valor as Record<string, unknown>)[clave]);
+    });
+  } else {
+    throw new Error(`Valor no representable en MessagePack: ${typeof valor}`);
+  }
+}
+
+function escribirNumero(escritor: Escritor, numero: number): void {
+  if (!Number.isSafeInteger(numero)) {
+    const inicio = reservar(escritor, 9);
+    escritor.buffer[inicio] = 0xcb;
+    escritor.buffer.writeDoubleBE(numero, inicio + 1);
+    return;
+  }
+
+  if (numero >= 0 && numero < 0x80) {
+    escribirByte(escritor, numero);
+  } else if (numero < 0 && numero >= -32) {
+    escribirByte(escritor, numero + 0x100);
+  } else if (numero >= 0) {
+    if (numero <= 0xff) {
+      const inicio = reservar(escritor, 2);
+      escritor.buffer[inicio] = 0xcc;
+      escritor.buffer.writeUInt8(numero, inicio + 1);
+    } else if (numero <= 0xffff) {
+      const inicio = reservar(escritor, 3);
+      escritor.buffer[inicio] = 0xcd;
+      escritor.buffer.writeUInt16BE(numero, inicio + 1);
+    } else if (numero <= 0xffffffff) {
+      const inicio = reservar(escritor, 5);
+      escritor.buffer[inicio] = 0xce;
+      escritor.buffer.writeUInt32BE(numero, inicio + 1);
+    } else {
+      const inicio = reservar(escritor, 9);
+      escritor.buffer[inicio] = 0xcf;
+      escritor.buffer.writeBigUInt64BE(BigInt(numero), inicio + 1);
+    }
+  } else if (numero >= -0x80) {
+    const inicio = reservar(escritor, 2);
+    escritor.buffer[inicio] = 0xd0;
+    escritor.buffer.writeInt8(numero, inicio + 1);
+  } else if (numero >= -0x8000) {
+    const inicio = reservar(escritor, 3);
+    escritor.buffer[inicio] = 0xd1;
+    escritor.buffer.writeInt16BE(numero, inicio + 1);
+  } else if (numero >= -0x80000000) {
+    const inicio = reservar(escritor, 5);
+    escritor.buffer[inicio] = 0xd2;
+    escritor.buffer.writeInt32BE(numero, inicio + 1);
+  } else {
+    const inicio = reservar(escritor, 9);
+    escritor.buffer[inicio] = 0xd3;
+    escritor.buffer.writeBigInt64BE(BigInt(numero), inicio + 1);
+  }
+}
+
+function escribirCadena(escritor: Escritor, cadena: string): void {
+  const bytes = Buffer.byteLength(cadena);
+
+  if (bytes < 32) {
+    escribirByte(escritor, 0xa0 | bytes);
+  } else if (bytes <= 0xff) {
+    const inicio = reservar(escritor, 2);
+    escritor.buffer[inicio] = 0xd9;
+    escritor.buffer.writeUInt8(bytes, inicio + 1);
+  } else {
+    escribirCabecera(escritor, bytes, -1, 0xda, 0xdb);
+  }
+
+  const posicionTexto = reservar(escritor, bytes);
+  escritor.buffer.write(cadena, posicionTexto, bytes, 'utf8');
+}
+
+/**
+ * Escribe la cabecera de un array, mapa o cadena larga según su longitud
+ * @param corto Prefijo del formato "fix" (longitud < 16), o -1 si no se usa
+ * @param formato16 Formato con longitud de 16 bits
+ * @param formato32 Formato con longitud de 32 bits
+ */
+function escribirCabecera(escritor: Escritor, longitud: number, corto: number, formato16: number, formato32: number): void {
+  if (corto >= 0 && longitud < 16) {
+    escribirByte(escritor, corto | longitud);
+  } else if (longitud <= 0xffff) {
+    const inicio = reservar(escritor, 3);
+    escritor.buffer[inicio] = formato16;
+    escritor.buffer.writeUInt16BE(longitud, inicio + 1);
+  } else {
+    const inicio = reservar(escritor, 5);
+    escritor.buffer[inicio] = formato32;
+    escritor.buffer.writeUInt32BE(longitud, inicio + 1);
+  }
+}
+
+/**
+ * Avanza el lector y devuelve la posición de los bytes leídos
+ * @throws Error si el mensaje se acaba antes
+ */
+function avanzar(lector: Lector, bytes: number): number {
+  const inicio = lector.posicion;
+
+  if (inicio + bytes > lector.buffer.length) {
+    throw new Error('Mensaje MessagePack incompleto');
+  }
+
+  lector.posicion += bytes;
+  return inicio;
+}
+
+function leerValor(lector: Lector): unknown {
+  const { buffer } = lector;
+  const formato = buffer[avanzar(lector, 1)];
+
+  // Formatos "fix": el valor o la longitud van en el propio byte de formato
+  if (formato < 0x80) {
+    return formato;
+  }
+  if (formato >= 0xe0) {
+    return formato - 0x100;
+  }
+  if (formato >= 0xa0 && formato < 0xc0) {
+    return leerCadena(lector, formato & 0x1f);
+  }
+  if (formato >= 0x90 && formato < 0xa0) {
+    return leerArray(lector, formato & 0x0f);
+  }
+  if (formato >= 0x80 && formato < 0x90) {
+    return leerMapa(lector, formato & 0x0f);
+  }
+
+  switch (formato) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xca: return buffer.readFloatBE(avanzar(lector, 4));
+    case 0xcb: return buffer.readDoubleBE(avanzar(lector, 8));
+    case 0xcc: return buffer.readUInt8(avanzar(lector, 1));
+    case 0xcd: return buffer.readUInt16BE(avanzar(lector, 2));
+    case 0xce: return buffer.readUInt32BE(avanzar(lector, 4));
+    case 0xcf: return Number(buffer.readBigUInt64BE(avanzar(lector, 8)));
+    case 0xd0: return buffer.readInt8(avanzar(lector, 1));
+    case 0xd1: return buffer.readInt16BE(avanzar(lector, 2));
+    case 0xd2: return buffer.readInt32BE(avanzar(lector, 4));
+    case 0xd3: return Number(buffer.readBigInt64BE(avanzar(lector, 8)));
+    case 0xd9: return leerCadena(lector, buffer.readUInt8(avanzar(lector, 1)));
+    case 0xda: return leerCadena(lector, buffer.readUInt16BE(avanzar(lector, 2)));
+    case 0xdb: return leerCadena(lector, buffer.readUInt32BE(avanzar(lector, 4)));
+    case 0xdc: return leerArray(lector, buffer.readUInt16BE(avanzar(lector, 2)));
+    case 0xdd: return leerArray(lector, buffer.readUInt32BE(avanzar(lector, 4)));
+    case 0xde: return leerMapa(lector, buffer.readUInt16BE(avanzar(lector, 2)));
+    case 0xdf: return leerMapa(lector, buffer.readUInt32BE(avanzar(lector, 4)));
+    default:
+      throw new Error(`Formato MessagePack no soportado: 0x${formato.toString(16)}`);
+  }
+}
+
+function leerCadena(lector: Lector, bytes: number): string {
+  const inicio = avanzar(lector, bytes);
+  return lector.buffer.toString('utf8', inicio, inicio + bytes);
+}
+
+function leerArray(lector: Lector, longitud: number): unknown[] {
+  const array: unknown[] = [];
+
+  for (let i = 0; i < longitud; i++) {
+    array.push(leerValor(lector));
+  }
+
+  return array;
+}
+
+function leerMapa(lector: Lector, longitud: number): Record<string, unknown> {
+  const mapa: Record<string, unknown> = {};
+
+  for (let i = 0; i < longitud; i++) {
+    const clave = String(leerValor(lector));
+    // Como en JSON.parse, "__proto__" es una clave más y no cambia el prototipo
+    Object.defineProperty(mapa, clave, { value: leerValor(lector), enumerable: true, writable: true, configurable: true });
+  }
+
+  return mapa;
+}
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '../../core/eventBus';
+import {
+  marcarConectado,
+  registrarActividad,
+  registrarLatido,
+  revisarAusencias,
+  marcarDesconectado,
+  obtenerPresencia
+} from './presencia';
+
+const TIEMPO_AUSENTE = 30_000;
+
+describe('presencia', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('pasa a idle sin mensajes aunque la conexión responda a los latidos', () => {
+    marcarConectado('terminal-latidos', '127.0.0.1');
+
+    for (let i = 0; i < 4; i++) {
+      vi.advanceTimersByTime(10_000);
+      registrarLatido('terminal-latidos', 5);
+    }
+    revisarAusencias(TIEMPO_AUSENTE);
+
+    const presencia = obtenerPresencia('terminal-latidos');
+    expect(presencia?.estado).toBe('idle');
+    expect(presencia?.ultimaActividad).toBe('2025-01-01T10:00:00.000Z');
+    expect(presencia?.ultimoLatido).toBe('2025-01-01T10:00:40.000Z');
+    expect(presencia?.latenciaMs).toBe(5);
+  });
+
+  it('sigue online mientras el dispositivo envía mensajes', () => {
+    marcarConectado('terminal-activo', '127.0.0.1');
+
+    vi.advanceTimersByTime(20_000);
+    registrarActividad('terminal-activo');
+    vi.advanceTimersByTime(20_000);
+    revisarAusencias(TIEMPO_AUSENTE);
+
+    expect(obtenerPresencia('terminal-activo')?.estado).toBe('online');
+  });
+
+  it('vuelve a online con el primer mensaje tras estar idle', () => {
+    const cambios: string[] = [];
+    const cancelar = global.eventBus.on('microservidor:presenciaCambiada', (evento) => {
+      if (evento.payload.presencia.dispositivoId === 'terminal-idle') {
+        cambios.push(evento.payload.presencia.estado);
+      }
+    });
+
+    marcarConectado('terminal-idle', '127.0.0.1');
+    vi.advanceTimersByTime(TIEMPO_AUSENTE + 1);
+    revisarAusencias(TIEMPO_AUSENTE);
+    registrarActividad('terminal-idle');
+    cancelar();
+
+    expect(cambios).toEqual(['online', 'idle', 'online']);
+  });
+
+  it('ignora latidos y mensajes de un dispositivo desconectado', () => {
+    marcarConectado('terminal-desconectado', '127.0.0.1');
+    marcarDesconectado('terminal-desconectado', 'Conexión cerrada');
+
+    registrarActividad('terminal-desconectado');
+    registrarLatido('terminal-desconectado', 5);
+
+    const presencia = obtenerPresencia('terminal-desconectado');
+    expect(presencia?.estado).toBe('offline');
+    expect(presencia?.conectadoDesde).toBeUndefined();
+    expect(presencia?.ultimoLatido).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * presencia.ts
+ *
+ * Registro de presencia de los dispositivos conectados al servidor WebSocket.
+ * - online: conectado y con mensajes recientes.
+ * - idle: conectado, pero sin enviar mensajes durante `seguridad.tiempoAusente`.
+ *   Responder a los latidos no cuenta como actividad: solo demuestra que la conexión sigue viva.
+ * - offline: desconectado; se conserva la última actividad conocida.
+ * Cada cambio de estado emite `microservidor:presenciaCambiada` y cada latido respondido
+ * `microservidor:presenciaActualizada` (latencia y hora del latido). El corazon refleja ambos en su estado.
+ */
+
+import { z } from 'zod';
+import { crearEventoBase } from '../utils/helpers';
+import { EsquemaPresencia } from '../eventos/catalogoEventos';
+
+export type Presencia = z.infer<typeof EsquemaPresencia>;
+
+export type EstadoPresencia = Presencia['estado'];
+
+// Presencia por ID de dispositivo
+const presencias = new Map<string, Presencia>();
+
+/**
+ * Registra la conexión autenticada de un dispositivo
+ * @param dispositivoId ID del dispositivo
+ * @param ip Dirección IP del cliente
+ */
+export function marcarConectado(dispositivoId: string, ip: string): void {
+  const ahora = new Date().toISOString();
+  const anterior = presencias.get(dispositivoId);
+
+  cambiarEstado({
+    dispositivoId,
+    estado: 'online',
+    ip,
+    conectadoDesde: ahora,
+    ultimaActividad: ahora
+  }, anterior?.estado, 'Conexión autenticada');
+}
+
+/**
+ * Anota un mensaje recibido del dispositivo; si estaba "idle" vuelve a "online"
+ * @param dispositivoId ID del dispositivo
+ */
+export function registrarActividad(dispositivoId: string): void {
+  const presencia = presencias.get(dispositivoId);
+
+  if (!presencia || presencia.estado === 'offline') {
+    return;
+  }
+
+  presencia.ultimaActividad = new Date().toISOString();
+
+  if (presencia.estado === 'idle') {
+    cambiarEstado({ ...presencia, estado: 'online' }, 'idle', 'Actividad recibida');
+  }
+}
+
+/**
+ * Anota la respuesta a un latido
+ * @param dispositivoId ID del dispositivo
+ * @param latenciaMs Tiempo entre el ping y el pong
+ */
+export function registrarLatido(dispositivoId: string, latenciaMs: number): void {
+  const presencia = presencias.get(dispositivoId);
+
+  if (!presencia || presencia.estado === 'offline') {
+    return;
+  }
+
+  presencia.ultimoLatido = new Date().toISOString();
+  presencia.latenciaMs = latenciaMs;
+
+  global.eventBus.emit('microservidor:presenciaActualizada', crearEventoBase('microservidor:presenciaActualizada', {
+    presencia: { ...presencia }
+  }, 2));
+}
+
+/**
+ * Pasa a "idle" los dispositivos "online" sin actividad desde hace más de `tiempoAusente`
+ * @param tiempoAusente Milisegundos sin mensajes tras los que un dispositivo se considera ausente
+ */
+export function revisarAusencias(tiempoAusente: number): void {
+  const limite = Date.now() - tiempoAusente;
+
+  presencias.forEach((presencia) => {
+    if (presencia.estado === 'online' && Date.parse(presencia.ultimaActividad) < limite) {
+      cambiarEstado({ ...presencia, estado: 'idle' }, 'online', 'Sin actividad reciente');
+    }
+  });
+}
+
+/**
+ * Registra la desconexión de un dispositivo
+ * @param dispositivoId ID del dispositivo
+ * @param motivo Razón de la desconexión
+ */
+export function marcarDesconectado(dispositivoId: string, motivo: string): void {
+  const presencia = presencias.get(dispositivoId);
+
+  if (!presencia || presencia.estado === 'offline') {
+    return;
+  }
+
+  cambiarEstado({ ...presencia, estado: 'offline', conectadoDesde: undefined }, presencia.estado, motivo);
+}
+
+/**
+ * Devuelve la presencia de un dispositivo, si alguna vez se conectó
+ * @param dispositivoId ID del dispositivo
+ */
+export function obtenerPresencia(dispositivoId: string): Presencia | undefined {
+  const presencia = presencias.get(dispositivoId);
+  return presencia ? { ...presencia } : undefined;
+}
+
+/**
+ * Devuelve la presencia de todos los dispositivos que se han conectado
+ */
+export function listarPresencias(): Presencia[] {
+  return Array.from(presencias.values(), presencia => ({ ...presencia }));
+}
+
+/**
+ * Guarda la nueva presencia de un dispositivo y emite el cambio
+ */
+function cambiarEstado(presencia: Presencia, estadoAnterior: EstadoPresencia | undefined, motivo: string): void {
+  presencias.set(presencia.dispositivoId, presencia);
+
+  global.eventBus.emit('microservidor:presenciaCambiada', crearEventoBase('microservidor:presenciaCambiada', {
+    estadoAnterior,
+    presencia: { ...presencia },
+    motivo
+  }, 4));
+}
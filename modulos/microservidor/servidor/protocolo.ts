@@ -0,0 +1,196 @@
+/**
+ * protocolo.ts
+ *
+ * Mensajes de control del protocolo WebSocket entre el microservidor y los dispositivos.
+ * Un mensaje de control se distingue de un evento por su campo `control`; los eventos del sistema
+ * viajan con la estructura estándar (meta, payload, contexto).
+ *
+ * Autenticación (obligatoria al conectar):
+ * 1. Servidor -> dispositivo: { control: 'desafio', nonce, algoritmo }
+ * 2. Dispositivo -> servidor: { control: 'autenticar', dispositivoId, prueba }
+ *    donde prueba = HMAC-SHA256(llave del dispositivo, nonce) en hexadecimal.
+ * 3. Servidor -> dispositivo: { control: 'autenticado', dispositivoId, sesion? } o cierre con código 4001/4002.
+ *
+ * Emparejamiento (dispositivo nuevo, solo mientras un administrador tenga abierta una ventana):
+ * 2'. Dispositivo -> servidor: { control: 'emparejar', dispositivoId, codigo } en lugar de 'autenticar'.
+ * 3'. Servidor -> dispositivo: { control: 'emparejado', dispositivoId, llave } seguido de 'autenticado',
+ *     o cierre con código 4006 (4009 si el servidor falla al darlo de alta, y puede reintentarse).
+ *     El dispositivo guarda la llave para autenticarse en las siguientes conexiones.
+ *
+ * Rotación de llave: el servidor envía { control: 'llaveRotada', llave, expiraEn } cuando rota la llave
+ * de un dispositivo conectado, o nada más autenticarse si lo hizo con la llave anterior (periodo de gracia).
+ * El dispositivo debe reemplazar su llave guardada por la nueva.
+ *
+ * Reanudación de sesión (si `seguridad.permitirReconexiones` está activo, ver sesiones.ts):
+ * - 'autenticado' incluye sesion: { token, ventanaMs, reanudada, eventosPendientes }. El token cambia en cada conexión.
+ * - Al reconectar antes de ventanaMs, 'autenticar' puede llevar sesion: { token, ultimoEventoId? }, con el último
+ *   token recibido y el meta.id del último evento procesado. Si el token es válido, tras 'autenticado' llegan en orden
+ *   los eventos perdidos (eventosPendientes) y después continúa la entrega en vivo.
+ *
+ * Suscripciones (ya autenticado, ver suscripciones.ts): limitan las difusiones que recibe el dispositivo.
+ * - Dispositivo -> servidor: { control: 'suscribir', patrones, reemplazar? } o { control: 'desuscribir', patrones }.
+ * - Servidor -> dispositivo: { control: 'suscripciones', patrones, rechazados } con la lista resultante
+ *   y los patrones que su rol no puede suscribir. Al conectar, la suscripción es ["**"].
+ *
+ * Entrega confirmada (tipos de `entregaConfirmada.tipos`, ver entregasConfirmadas.ts):
+ * - Dispositivo -> servidor: { control: 'confirmar', id } con el meta.id de cada evento recibido.
+ *   Confirmar eventos de otros tipos no tiene efecto. Sin confirmación, el evento se reenvía.
+ *
+ * Límites (`limites` en config.json, ver limitador.ts): un mensaje de más de `tamanoMaximoMensaje` bytes
+ * cierra la conexión con 1009. Un mensaje que supera el ritmo permitido se descarta y el servidor responde
+ * { control: 'limitado', mensaje, reintentarEnMs }; si se repite demasiado, la conexión se cierra con 4008.
+ * Las confirmaciones de entrega no consumen cupo.
+ *
+ * Codificación y compresión, negociadas en el handshake de cada conexión WebSocket (`codificacion` en config.json):
+ * - Subprotocolo (Sec-WebSocket-Protocol): con "pizzepos.msgpack" todos los mensajes, de control y eventos, viajan
+ *   como tramas binarias MessagePack (ver msgpack.ts) en ambos sentidos. Con "pizzepos.json" o sin subprotocolo, como texto JSON.
+ * - permessage-deflate: se acepta si el cliente lo ofrece; solo se comprimen los mensajes de `umbralDeflate` bytes o más.
+ *
+ * Transporte SSE (`sse` en config.json, ver sse.ts), para dispositivos que no pueden mantener un WebSocket.
+ * Los mensajes son los mismos, siempre en JSON; solo cambia cómo viajan:
+ * - GET /sse abre el canal de bajada (text/event-stream). Cada mensaje llega como un evento SSE `data:`
+ *   con el JSON, el primero { control: 'canal', token } y a continuación el desafío.
+ * - POST /sse/<token> con un mensaje JSON por petición (autenticación, control o evento); responde 202
+ *   y lo que el mensaje provoque llega por el canal. 404 si el canal ya no existe, 413 si el mensaje es demasiado grande.
+ * - Como SSE no tiene trama de cierre, el servidor envía { control: 'cierre', codigo, motivo } antes de cerrar el canal.
+ *   Tras un cierre por autenticación, revocación o reemplazo (4001-4006) el dispositivo no debe reconectar solo.
+ *
+ * Descubrimiento en la red local (`descubrimiento` en config.json, ver descubrimiento.ts y cliente/descubrimiento.ts),
+ * por UDP en el puerto `descubrimiento.puerto` y fuera de la conexión:
+ * - El servidor difunde cada `intervalo` ms un AnuncioServidor { servicio: 'pizzepos', nombre, version, puerto, seguro, huellaCertificado? }.
+ * - Un dispositivo que acaba de arrancar puede enviar por broadcast { servicio: 'pizzepos', consulta: true }
+ *   y el servidor le responde con el anuncio directamente. La IP del servidor es la de origen del datagrama.
+ * - El anuncio no está autenticado: si el dispositivo ya fijó la huella del certificado, debe descartar los que no la lleven.
+ */
+
+import { z } from 'zod';
+import type { Evento } from '../../core/eventBus';
+
+// Algoritmo con el que el dispositivo firma el nonce
+export const ALGORITMO_PRUEBA = 'HMAC-SHA256';
+
+/**
+ * Subprotocolos WebSocket que fijan la codificación de los mensajes
+ */
+export const Subprotocolos = {
+  JSON: 'pizzepos.json',
+  MSGPACK: 'pizzepos.msgpack'
+} as const;
+
+/**
+ * Códigos de cierre propios (rango 4000-4999 reservado a aplicaciones)
+ */
+export const CodigosCierre = {
+  AUTENTICACION_FALLIDA: 4001,
+  TIEMPO_AUTENTICACION_AGOTADO: 4002,
+  SESION_REEMPLAZADA: 4003,
+  PROTOCOLO_INVALIDO: 4004,
+  ACCESO_REVOCADO: 4005,
+  EMPAREJAMIENTO_RECHAZADO: 4006,
+  INACTIVIDAD: 4007,
+  LIMITE_EXCEDIDO: 4008,
+  ERROR_INTERNO: 4009
+} as const;
+
+// Mensajes que envía el dispositivo
+export const MensajeAutenticarSchema = z.object({
+  control: z.literal('autenticar'),
+  dispositivoId: z.string().min(1),
+  prueba: z.string().regex(/^[0-9a-f]{64}$/i, 'La prueba debe ser un HMAC-SHA256 en hexadecimal'),
+  // Sesión anterior que el dispositivo quiere reanudar
+  sesion: z.object({
+    token: z.string().regex(/^[0-9a-f]{64}$/i, 'Token de sesión inválido'),
+    ultimoEventoId: z.string().min(1).optional()
+  }).optional()
+});
+
+export const MensajeEmparejarSchema = z.object({
+  control: z.literal('emparejar'),
+  // Sin puntos: el ID se usa como clave del estado (dispositivos.<id>)
+  dispositivoId: z.string().regex(/^[\w-]{1,64}$/, 'El ID solo admite letras, números, "_" y "-" (máximo 64)'),
+  codigo: z.string().regex(/^\d{4,10}$/, 'El código de emparejamiento es numérico')
+});
+
+// Patrones como los del bus ("modulo:*", "**")
+const PatronesSchema = z.array(z.string().regex(/^[\w*:.-]{1,100}$/, 'Patrón de suscripción inválido')).min(1).max(50);
+
+export const MensajeSuscribirSchema = z.object({
+  control: z.literal('suscribir'),
+  patrones: PatronesSchema,
+  // Sustituir las suscripciones actuales en lugar de añadir
+  reemplazar: z.boolean().optional()
+});
+
+export const MensajeDesuscribirSchema = z.object({
+  control: z.literal('desuscribir'),
+  patrones: PatronesSchema
+});
+
+export const MensajeConfirmarSchema = z.object({
+  control: z.literal('confirmar'),
+  id: z.string().min(1)
+});
+
+export const MensajeControlEntranteSchema = z.discriminatedUnion('control', [
+  MensajeAutenticarSchema,
+  MensajeEmparejarSchema,
+  MensajeSuscribirSchema,
+  MensajeDesuscribirSchema,
+  MensajeConfirmarSchema
+]);
+
+export type MensajeControlEntrante = z.infer<typeof MensajeControlEntranteSchema>;
+
+// Descubrimiento en la red local
+export const SERVICIO_DESCUBRIMIENTO = 'pizzepos';
+export const PUERTO_DESCUBRIMIENTO = 41234;
+
+export const AnuncioServidorSchema = z.object({
+  servicio: z.literal(SERVICIO_DESCUBRIMIENTO),
+  // Nombre del equipo del servidor, para distinguirlo si hay varios
+  nombre: z.string(),
+  version: z.string(),
+  // Puerto del WebSocket (y del transporte SSE)
+  puerto: z.number().int().min(1).max(65535),
+  // wss:// en lugar de ws://
+  seguro: z.boolean(),
+  huellaCertificado: z.string().optional()
+});
+
+export type AnuncioServidor = z.infer<typeof AnuncioServidorSchema>;
+
+export const ConsultaDescubrimientoSchema = z.object({
+  servicio: z.literal(SERVICIO_DESCUBRIMIENTO),
+  consulta: z.literal(true)
+});
+
+// Sesión que se informa al dispositivo al autenticarse
+export interface InfoSesion {
+  token: string;
+  ventanaMs: number;
+  reanudada: boolean;
+  eventosPendientes: number;
+}
+
+// Mensajes que envía el servidor
+export type MensajeControlSaliente =
+  | { control: 'desafio'; nonce: string; algoritmo: typeof ALGORITMO_PRUEBA }
+  | { control: 'autenticado'; dispositivoId: string; sesion?: InfoSesion }
+  | { control: 'emparejado'; dispositivoId: string; llave: string }
+  | { control: 'llaveRotada'; llave: string; expiraEn: string }
+  | { control: 'suscripciones'; patrones: string[]; rechazados: string[] }
+  | { control: 'limitado'; mensaje: string; reintentarEnMs: number }
+  | { control: 'canal'; token: string }
+  | { control: 'cierre'; codigo: number; motivo: string }
+  | { control: 'error'; mensaje: string };
+
+// Lo que el servidor puede enviar a un dispositivo: eventos del bus o mensajes de control
+export type MensajeSaliente = Evento | MensajeControlSaliente;
+
+/**
+ * Indica si un mensaje recibido es de control (y no un evento)
+ * @param datos Mensaje ya parseado
+ */
+export function esMensajeControl(datos: unknown): datos is { control: string } {
+  return typeof datos === 'object' && datos !== null && typeof (datos as { control?: unknown }).control === 'string';
+}
@@ -0,0 +1,178 @@
+/**
+ * sesiones.ts
+ *
+ * Sesiones de los dispositivos para reanudar la entrega de eventos tras una reconexión
+ * (`seguridad.permitirReconexiones`).
+ * Al autenticarse, el dispositivo recibe un token de sesión. Los eventos que se le envían se guardan en
+ * un búfer circular propio de `seguridad.maxEventosPendientes` entradas, también mientras está desconectado.
+ * Si vuelve a autenticarse presentando el token antes de que pase `seguridad.ventanaReconexion`,
+ * recibe en orden los eventos que se perdió; pasada la ventana, la sesión y su búfer se descartan.
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { getConfig } from '../config/config';
+import type { MensajeSaliente } from './protocolo';
+
+// Evento guardado en el búfer de una sesión
+interface EventoGuardado {
+  id: string;
+  mensajeJSON: string;
+  // false si el dispositivo estaba desconectado cuando se generó
+  entregado: boolean;
+}
+
+interface Sesion {
+  token: string;
+  // Del más antiguo al más reciente
+  eventos: EventoGuardado[];
+  conectada: boolean;
+  // Descarte de la sesión cuando vence la ventana de reconexión
+  temporizadorCaducidad: NodeJS.Timeout | null;
+}
+
+/**
+ * Datos con los que un dispositivo pide reanudar su sesión anterior
+ */
+export interface SolicitudReanudacion {
+  token: string;
+  // Último evento que el dispositivo llegó a recibir
+  ultimoEventoId?: string;
+}
+
+/**
+ * Sesión abierta para una conexión recién autenticada
+ */
+export interface SesionAbierta {
+  token: string;
+  reanudada: boolean;
+  // Eventos que hay que reenviar, en orden, antes de seguir con la entrega en vivo
+  pendientes: string[];
+}
+
+// Sesiones por ID de dispositivo
+const sesiones = new Map<string, Sesion>();
+
+/**
+ * Abre la sesión de un dispositivo que acaba de autenticarse, con un token nuevo.
+ * Si presenta el token de su sesión anterior, se conserva el búfer y se devuelven los eventos que se perdió:
+ * los posteriores a `ultimoEventoId` o, si no lo indica o ya salió del búfer, los generados mientras estaba desconectado.
+ * @param dispositivoId ID del dispositivo
+ * @param reanudacion Token de la sesión anterior, si el dispositivo quiere reanudarla
+ * @returns La sesión abierta, o null si las reconexiones están desactivadas
+ */
+export function abrirSesion(dispositivoId: string, reanudacion?: SolicitudReanudacion): SesionAbierta | null {
+  if (!getConfig().seguridad.permitirReconexiones) {
+    descartarSesion(dispositivoId);
+    return null;
+  }
+
+  const anterior = sesiones.get(dispositivoId);
+  const reanudada = anterior !== undefined && reanudacion !== undefined && coincideToken(anterior.token, reanudacion.token);
+  let pendientes: EventoGuardado[] = [];
+
+  if (anterior && reanudada) {
+    const indice = reanudacion.ultimoEventoId
+      ? anterior.eventos.findIndex(evento => evento.id === reanudacion.ultimoEventoId)
+      : -1;
+
+    pendientes = indice >= 0
+      ? anterior.eventos.slice(indice + 1)
+      : anterior.eventos.filter(evento => !evento.entregado);
+
+    pendientes.forEach(evento => { evento.entregado = true; });
+  }
+
+  descartarSesion(dispositivoId);
+
+  const token = randomBytes(32).toString('hex');
+  sesiones.set(dispositivoId, {
+    token,
+    eventos: reanudada && anterior ? anterior.eventos : [],
+    conectada: true,
+    temporizadorCaducidad: null
+  });
+
+  return { token, reanudada, pendientes: pendientes.map(evento => evento.mensajeJSON) };
+}
+
+/**
+ * Marca la sesión de un dispositivo como desconectada; se descarta si no la reanuda dentro de la ventana
+ * @param dispositivoId ID del dispositivo
+ */
+export function suspenderSesion(dispositivoId: string): void {
+  const sesion = sesiones.get(dispositivoId);
+
+  if (!sesion || !sesion.conectada) {
+    return;
+  }
+
+  sesion.conectada = false;
+  sesion.temporizadorCaducidad = setTimeout(() => {
+    if (sesiones.get(dispositivoId) === sesion) {
+      sesiones.delete(dispositivoId);
+    }
+  }, getConfig().seguridad.ventanaReconexion);
+  sesion.temporizadorCaducidad.unref();
+}
+
+/**
+ * Descarta la sesión de un dispositivo y su búfer (p. ej. al revocar su acceso)
+ * @param dispositivoId ID del dispositivo
+ */
+export function descartarSesion(dispositivoId: string): void {
+  const sesion = sesiones.get(dispositivoId);
+
+  if (sesion?.temporizadorCaducidad) {
+    clearTimeout(sesion.temporizadorCaducidad);
+  }
+
+  sesiones.delete(dispositivoId);
+}
+
+/**
+ * Guarda un evento enviado a un dispositivo en el búfer de su sesión, si la tiene.
+ * Los mensajes de control no son eventos y no se guardan.
+ * @param dispositivoId ID del dispositivo destinatario
+ * @param mensaje Mensaje enviado
+ * @param mensajeJSON Mensaje ya serializado
+ * @param entregado false si el dispositivo no estaba conectado
+ */
+export function guardarEvento(dispositivoId: string, mensaje: MensajeSaliente, mensajeJSON: string, entregado: boolean): void {
+  const sesion = sesiones.get(dispositivoId);
+
+  if (!sesion || !('meta' in mensaje)) {
+    return;
+  }
+
+  sesion.eventos.push({ id: mensaje.meta.id, mensajeJSON, entregado });
+
+  if (sesion.eventos.length > getConfig().seguridad.maxEventosPendientes) {
+    sesion.eventos.shift();
+  }
+}
+
+/**
+ * Indica si un dispositivo tiene una sesión viva (conectada o dentro de la ventana de reconexión)
+ * @param dispositivoId ID del dispositivo
+ */
+export function tieneSesion(dispositivoId: string): boolean {
+  return sesiones.has(dispositivoId);
+}
+
+/**
+ * Devuelve los IDs de los dispositivos desconectados que aún pueden reanudar su sesión
+ */
+export function listarSesionesSuspendidas(): string[] {
+  return Array.from(sesiones.entries())
+    .filter(([, sesion]) => !sesion.conectada)
+    .map(([dispositivoId]) => dispositivoId);
+}
+
+/**
+ * Compara dos tokens en tiempo constante
+ */
+function coincideToken(esperado: string, recibido: string): boolean {
+  const a = Buffer.from(esperado);
+  const b = Buffer.from(recibido);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
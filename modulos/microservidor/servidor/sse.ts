@@ -0,0 +1,193 @@
+/**
+ * sse.ts
+ *
+ * Transporte alternativo al WebSocket para los dispositivos que no pueden mantenerlo abierto
+ * (p. ej. webviews cuyo ahorro de energía corta los sockets): canal de bajada con Server-Sent Events
+ * y mensajes de subida por HTTP POST, en el mismo puerto (`sse` en config.json, protocolo en protocolo.ts).
+ * Cada canal se presenta como una Conexion y lo atiende atenderConexion (ws.ts), de modo que la autenticación,
+ * las sesiones, las suscripciones, los límites y el registro en `conexiones` son los del WebSocket.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { randomBytes } from 'crypto';
+import { getConfig } from '../config/config';
+import { atenderConexion, Conexion, ReceptorConexion } from './ws';
+import { MensajeControlSaliente } from './protocolo';
+
+// Código de cierre cuando el canal se corta sin que el servidor lo cierre (como 1006 en WebSocket)
+const CIERRE_ANORMAL = 1006;
+
+// Código de cierre de un mensaje mayor que `limites.tamanoMaximoMensaje` (como 1009 en WebSocket)
+const MENSAJE_DEMASIADO_GRANDE = 1009;
+
+// Espera que se indica al EventSource antes de reconectar un canal cortado
+const ESPERA_RECONEXION = 3000;
+
+// Canal SSE abierto
+interface Canal {
+  conexion: Conexion;
+  receptor: ReceptorConexion;
+}
+
+// Canales abiertos por token. El token es lo único que identifica los POST de un canal,
+// así que es aleatorio y no sale de aquí (en logs y eventos la conexión se identifica con otro ID)
+const canales = new Map<string, Canal>();
+
+/**
+ * Indica si una petición HTTP es del transporte SSE (GET /sse o POST /sse/<token>)
+ * @param peticion Petición recibida
+ */
+export function esPeticionSSE(peticion: IncomingMessage): boolean {
+  const ruta = new URL(peticion.url ?? '/', 'http://localhost').pathname;
+  return getConfig().sse.habilitado && (ruta === '/sse' || ruta.startsWith('/sse/'));
+}
+
+/**
+ * Atiende una petición del transporte SSE
+ * @param peticion Petición recibida
+ * @param respuesta Respuesta a completar
+ */
+export function atenderPeticionSSE(peticion: IncomingMessage, respuesta: ServerResponse): void {
+  const ruta = new URL(peticion.url ?? '/', 'http://localhost').pathname;
+
+  // La página del dispositivo no tiene por qué servirse desde este puerto
+  respuesta.setHeader('Access-Control-Allow-Origin', '*');
+
+  if (peticion.method === 'OPTIONS') {
+    respuesta.writeHead(204, {
+      'Access-Control-Allow-Methods': 'GET, POST',
+      'Access-Control-Allow-Headers': 'Content-Type'
+    });
+    respuesta.end();
+    return;
+  }
+
+  if (ruta === '/sse' && peticion.method === 'GET') {
+    abrirCanal(peticion, respuesta);
+    return;
+  }
+
+  if (ruta !== '/sse' && peticion.method === 'POST') {
+    recibirMensaje(peticion, respuesta, ruta.slice('/sse/'.length));
+    return;
+  }
+
+  respuesta.setHeader('Allow', ruta === '/sse' ? 'GET' : 'POST');
+  responderJSON(respuesta, 405, { error: 'Método no permitido' });
+}
+
+/**
+ * Abre un canal SSE y lo entrega a atenderConexion, que le envía el desafío de autenticación
+ */
+function abrirCanal(peticion: IncomingMessage, respuesta: ServerResponse): void {
+  const ip = peticion.socket.remoteAddress || 'desconocida';
+  const conexionId = `sse-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const token = randomBytes(32).toString('hex');
+  let cierre: { codigo: number; motivo: string } | null = null;
+
+  console.log(`Nuevo canal SSE desde ${ip}`);
+
+  respuesta.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    // Que un proxy intermedio no retenga los eventos
+    'X-Accel-Buffering': 'no'
+  });
+  respuesta.write(`retry: ${ESPERA_RECONEXION}\n\n`);
+
+  const conexion: Conexion = {
+    estaAbierta: () => !respuesta.writableEnded && !respuesta.destroyed,
+    enviar: (mensajeJSON) => {
+      if (conexion.estaAbierta()) {
+        respuesta.write(`data: ${mensajeJSON}\n\n`);
+      }
+    },
+    cerrar: (codigo, motivo) => {
+      if (!conexion.estaAbierta()) {
+        return;
+      }
+
+      enviarControl(conexion, { control: 'cierre', codigo, motivo });
+      cierre = { codigo, motivo };
+      respuesta.end();
+    },
+    // Un comentario mantiene vivo el canal en los proxies; si el dispositivo desapareció,
+    // la escritura acaba fallando y el canal se cierra solo
+    latir: () => {
+      if (conexion.estaAbierta()) {
+        respuesta.write(': latido\n\n');
+      }
+      return true;
+    }
+  };
+
+  // El token tiene que llegar antes que el desafío para poder responderlo
+  enviarControl(conexion, { control: 'canal', token });
+
+  const receptor = atenderConexion(conexion, conexionId, ip);
+  canales.set(token, { conexion, receptor });
+
+  respuesta.on('close', () => {
+    canales.delete(token);
+    receptor.cerrada(cierre?.codigo ?? CIERRE_ANORMAL, cierre?.motivo ?? '');
+  });
+}
+
+/**
+ * Entrega al canal el mensaje que llega en el cuerpo de un POST
+ * @param token Token del canal, tomado de la ruta
+ */
+function recibirMensaje(peticion: IncomingMessage, respuesta: ServerResponse, token: string): void {
+  const canal = canales.get(token);
+
+  if (!canal) {
+    responderJSON(respuesta, 404, { error: 'Canal no encontrado' });
+    return;
+  }
+
+  const limite = getConfig().limites.tamanoMaximoMensaje;
+  const partes: Buffer[] = [];
+  let tamano = 0;
+
+  peticion.on('data', (parte: Buffer) => {
+    tamano += parte.length;
+
+    if (tamano <= limite) {
+      partes.push(parte);
+    }
+  });
+
+  peticion.on('end', () => {
+    // El canal pudo cerrarse mientras llegaba el cuerpo
+    if (canales.get(token) !== canal) {
+      responderJSON(respuesta, 404, { error: 'Canal no encontrado' });
+      return;
+    }
+
+    if (tamano > limite) {
+      responderJSON(respuesta, 413, { error: 'Mensaje demasiado grande' });
+      canal.conexion.cerrar(MENSAJE_DEMASIADO_GRANDE, 'Mensaje demasiado grande');
+      return;
+    }
+
+    canal.receptor.recibir(Buffer.concat(partes).toString('utf8'));
+    respuesta.writeHead(202);
+    respuesta.end();
+  });
+}
+
+/**
+ * Envía un mensaje de control propio del transporte SSE
+ */
+function enviarControl(conexion: Conexion, mensaje: MensajeControlSaliente): void {
+  conexion.enviar(JSON.stringify(mensaje));
+}
+
+/**
+ * Envía una respuesta JSON
+ */
+function responderJSON(respuesta: ServerResponse, codigo: number, cuerpo: unknown): void {
+  respuesta.writeHead(codigo, { 'Content-Type': 'application/json; charset=utf-8' });
+  respuesta.end(JSON.stringify(cuerpo));
+}
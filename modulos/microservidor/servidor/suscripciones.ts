@@ -0,0 +1,96 @@
+/**
+ * suscripciones.ts
+ *
+ * Suscripciones por patrón de los dispositivos conectados por WebSocket ("flujoPedidos:*", "**", ...).
+ * Solo filtran las difusiones (eventos sin destinatario): lo que se dirige a un dispositivo concreto
+ * le llega siempre. Cada conexión nueva empieza suscrita a "**"; si reanuda su sesión, conserva las que tenía.
+ * La política de roles (dirección `suscribir`) limita los patrones que cada rol puede pedir.
+ */
+
+import { compilarPatron } from '../../core/eventBus';
+import { estaAutorizado } from '../../core/politicaRoles';
+
+// Suscripción con la que empieza cada conexión
+const SUSCRIPCION_PREDETERMINADA = '**';
+
+// Patrones suscritos por ID de dispositivo, con su expresión compilada (sin entrada: la predeterminada)
+const suscripciones = new Map<string, Map<string, RegExp>>();
+
+/**
+ * Resultado de una petición de suscripción
+ */
+export interface ResultadoSuscripcion {
+  // Patrones suscritos tras aplicar la petición
+  patrones: string[];
+  // Patrones que la política de roles no permite
+  rechazados: string[];
+}
+
+/**
+ * Suscribe un dispositivo a los patrones que su rol permite
+ * @param dispositivoId ID del dispositivo
+ * @param rol Rol efectivo del dispositivo
+ * @param patrones Patrones solicitados
+ * @param reemplazar Si es true, sustituyen a las suscripciones actuales (incluida la predeterminada)
+ */
+export function suscribir(dispositivoId: string, rol: string, patrones: string[], reemplazar: boolean = false): ResultadoSuscripcion {
+  const actuales = reemplazar ? new Map<string, RegExp>() : obtenerSuscripciones(dispositivoId);
+  const rechazados: string[] = [];
+
+  patrones.forEach((patron) => {
+    if (estaAutorizado(rol, patron, 'suscribir')) {
+      actuales.set(patron, compilarPatron(patron));
+    } else {
+      rechazados.push(patron);
+    }
+  });
+
+  suscripciones.set(dispositivoId, actuales);
+  return { patrones: Array.from(actuales.keys()), rechazados };
+}
+
+/**
+ * Quita suscripciones de un dispositivo (sin suscripciones, no recibe difusiones)
+ * @param dispositivoId ID del dispositivo
+ * @param patrones Patrones a quitar, tal como se suscribieron
+ * @returns Patrones que siguen suscritos
+ */
+export function desuscribir(dispositivoId: string, patrones: string[]): string[] {
+  const actuales = obtenerSuscripciones(dispositivoId);
+
+  patrones.forEach(patron => actuales.delete(patron));
+
+  suscripciones.set(dispositivoId, actuales);
+  return Array.from(actuales.keys());
+}
+
+/**
+ * Indica si una difusión de un tipo de evento coincide con las suscripciones de un dispositivo
+ * @param dispositivoId ID del dispositivo
+ * @param tipo Tipo del evento
+ */
+export function estaSuscrito(dispositivoId: string, tipo: string): boolean {
+  const actuales = suscripciones.get(dispositivoId);
+
+  if (!actuales) {
+    return true;
+  }
+
+  return Array.from(actuales.values()).some(patron => patron.test(tipo));
+}
+
+/**
+ * Devuelve un dispositivo a la suscripción predeterminada
+ * @param dispositivoId ID del dispositivo
+ */
+export function restablecerSuscripciones(dispositivoId: string): void {
+  suscripciones.delete(dispositivoId);
+}
+
+/**
+ * Copia de las suscripciones de un dispositivo, con la predeterminada si no pidió ninguna
+ */
+function obtenerSuscripciones(dispositivoId: string): Map<string, RegExp> {
+  return new Map(suscripciones.get(dispositivoId)
+    ?? [[SUSCRIPCION_PREDETERMINADA, compilarPatron(SUSCRIPCION_PREDETERMINADA)]]);
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { eventBus } from '../../core/eventBus';
+import { atenderConexion, Conexion } from './ws';
+import { CodigosCierre } from './protocolo';
+import { cargarListaAutorizada, calcularPrueba, cargarDispositivosDesdeArchivo } from '../validacion/autenticacion';
+import type { CancelarSuscripcion } from '../../core/eventBus';
+
+vi.mock('../validacion/autenticacion', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../validacion/autenticacion')>(),
+  cargarDispositivosDesdeArchivo: vi.fn()
+}));
+
+const suscripciones: CancelarSuscripcion[] = [];
+
+// Conexión sin transporte que guarda lo que el servidor envía y cómo la cierra
+function crearConexion() {
+  const enviados: Array<Record<string, unknown>> = [];
+  const cierres: Array<{ codigo: number; motivo: string }> = [];
+  const conexion: Conexion = {
+    estaAbierta: () => cierres.length === 0,
+    enviar: mensajeJSON => enviados.push(JSON.parse(mensajeJSON)),
+    cerrar: (codigo, motivo) => cierres.push({ codigo, motivo }),
+    latir: () => true
+  };
+
+  return { conexion, enviados, cierres };
+}
+
+// Conexión ya autenticada como el dispositivo indicado
+function conectar(dispositivoId: string, llave: string) {
+  const { conexion, enviados, cierres } = crearConexion();
+  const receptor = atenderConexion(conexion, randomUUID(), '127.0.0.1');
+  const nonce = enviados[0].nonce as string;
+
+  receptor.recibir(JSON.stringify({ control: 'autenticar', dispositivoId, prueba: calcularPrueba(llave, nonce) }));
+  expect(receptor.dispositivo()).toBe(dispositivoId);
+  enviados.splice(0);
+
+  return { receptor, enviados, cierres };
+}
+
+function evento(dispositivoId: string) {
+  return {
+    meta: { id: randomUUID(), timestamp: new Date().toISOString(), tipo: 'flujoPedidos:pedidoCreado', origen: 'terminal', prioridad: 5 },
+    payload: { pedidoId: 'p-1' },
+    contexto: { dispositivoId }
+  };
+}
+
+describe('ws', () => {
+  beforeAll(() => {
+    cargarListaAutorizada([
+      { id: 'terminal-01', llave: 'llave-01', activo: true },
+      { id: 'terminal-02', llave: 'llave-02', activo: true },
+      { id: 'terminal-03', llave: 'llave-03', activo: true }
+    ]);
+  });
+
+  afterEach(() => {
+    suscripciones.splice(0).forEach(cancelar => cancelar());
+  });
+
+  it('emite los eventos válidos del dispositivo y rechaza los que no tienen el sobre común', () => {
+    const entrantes = vi.fn();
+    const errores = vi.fn();
+    suscripciones.push(eventBus.on('microservidor:eventoEntrante', entrantes));
+    suscripciones.push(eventBus.on('microservidor:errorConexion', errores));
+    const { receptor, enviados } = conectar('terminal-01', 'llave-01');
+
+    const valido = evento('terminal-01');
+    receptor.recibir(JSON.stringify(valido));
+    receptor.recibir(JSON.stringify({ meta: { tipo: 'flujoPedidos:pedidoCreado' }, contexto: { dispositivoId: 'terminal-01' } }));
+    receptor.recibir(JSON.stringify(evento('terminal-02')));
+
+    expect(entrantes).toHaveBeenCalledTimes(1);
+    expect(entrantes.mock.calls[0][0]).toEqual(valido);
+    expect(errores).toHaveBeenCalledTimes(2);
+    expect(enviados).toEqual([expect.objectContaining({ control: 'error' })]);
+  });
+
+  it('no limita las confirmaciones de entrega', () => {
+    const entrantes = vi.fn();
+    suscripciones.push(eventBus.on('microservidor:eventoEntrante', entrantes));
+    const { receptor, enviados, cierres } = conectar('terminal-02', 'llave-02');
+
+    // Más confirmaciones que la capacidad de la cubeta del dispositivo (30 por defecto)
+    for (let i = 0; i < 100; i++) {
+      receptor.recibir(JSON.stringify({ control: 'confirmar', id: randomUUID() }));
+    }
+    receptor.recibir(JSON.stringify(evento('terminal-02')));
+
+    expect(enviados.filter(mensaje => mensaje.control === 'limitado')).toEqual([]);
+    expect(cierres).toEqual([]);
+    expect(entrantes).toHaveBeenCalledTimes(1);
+  });
+
+  it('cierra con ERROR_INTERNO si el emparejamiento falla por un error', async () => {
+    vi.mocked(cargarDispositivosDesdeArchivo).mockRejectedValueOnce(new Error('disco lleno'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    suscripciones.push(eventBus.on('core:solicitarEmparejamiento', (solicitud) => {
+      const { conexionId, dispositivoId } = solicitud.payload;
+      eventBus.emit('core:emparejamientoResuelto', {
+        ...solicitud,
+        meta: { ...solicitud.meta, id: randomUUID(), tipo: 'core:emparejamientoResuelto' },
+        payload: { conexionId, dispositivoId, aceptado: true, llave: 'llave-nueva' }
+      });
+    }));
+
+    const { conexion, cierres } = crearConexion();
+    const receptor = atenderConexion(conexion, randomUUID(), '127.0.0.1');
+    receptor.recibir(JSON.stringify({ control: 'emparejar', dispositivoId: 'terminal-04', codigo: '123456' }));
+
+    await vi.waitFor(() => expect(cierres).toEqual([
+      { codigo: CodigosCierre.ERROR_INTERNO, motivo: 'Error interno durante el emparejamiento' }
+    ]));
+    expect(receptor.dispositivo()).toBeNull();
+    vi.mocked(console.error).mockRestore();
+  });
+});
@@ -1,38 +1,144 @@
 /**
  * ws.ts
  * 
- * Implementa un servidor WebSocket nativo.
- * Recibe conexiones desde dispositivos en red local, escucha mensajes estructurados
- * y los emite al EventBus global sin transformación.
+ * Implementa un servidor WebSocket nativo, en claro (ws://) o sobre TLS (wss://) si `tls.habilitado` (certificados.ts).
+ * El WebSocket se monta sobre un servidor HTTP(S) propio: las peticiones HTTP normales del mismo puerto
+ * se delegan en el manejador que se indique al iniciar (ver administracion.ts).
+ * Recibe conexiones desde dispositivos en red local, exige que se autentiquen (ver protocolo.ts),
+ * escucha mensajes estructurados y los emite al EventBus global sin transformación.
+ * Todo lo que sigue es común a cualquier transporte (ver Conexion): los dispositivos que no pueden
+ * mantener un WebSocket usan el canal SSE de sse.ts, que se registra en las mismas `conexiones`.
+ * Antes de enviar un evento a un dispositivo comprueba que su rol pueda recibirlo (politicaRoles.ts).
+ * Envía latidos (ping/pong) para detectar sockets muertos y medir la latencia, desconecta a los dispositivos
+ * que superan `seguridad.tiempoMaximoInactivo` sin enviar mensajes y mantiene su presencia (presencia.ts).
+ * Los eventos enviados a cada dispositivo se guardan en su sesión para reenviarle los que pierda
+ * si se desconecta y reanuda la sesión a tiempo (sesiones.ts).
+ * Las difusiones solo llegan a los dispositivos suscritos a su tipo (suscripciones.ts).
+ * Los tipos con entrega confirmada se reenvían hasta que el dispositivo los confirma (entregasConfirmadas.ts).
+ * Los mensajes entrantes están limitados en tamaño y en ritmo por dispositivo y tipo de evento (limitador.ts).
+ * Cada conexión negocia en el handshake la compresión (permessage-deflate) y la codificación, JSON o MessagePack (msgpack.ts).
  */
 
 import { WebSocketServer, WebSocket } from 'ws';
+import { createServer as crearServidorHttp, Server as ServidorHttp, RequestListener, IncomingMessage, ServerResponse } from 'http';
+import { createServer as crearServidorHttps, Server as ServidorHttps } from 'https';
+import { randomBytes } from 'crypto';
 import { getConfig } from '../config/config';
 import { crearEventoBase } from '../utils/helpers';
+import { verificarPruebaDispositivo, buscarDispositivo, cargarDispositivosDesdeArchivo } from '../validacion/autenticacion';
+import { estaAutorizado, resolverRol } from '../../core/politicaRoles';
+import {
+  ALGORITMO_PRUEBA,
+  Subprotocolos,
+  CodigosCierre,
+  MensajeAutenticarSchema,
+  MensajeEmparejarSchema,
+  MensajeSuscribirSchema,
+  MensajeDesuscribirSchema,
+  MensajeConfirmarSchema,
+  MensajeControlSaliente,
+  MensajeSaliente,
+  esMensajeControl
+} from './protocolo';
+import { EsquemaEvento } from '../../core/eventBus';
+import type { Evento } from '../../core/eventBus';
+import type { PayloadDe } from '../../core/catalogoEventos';
+import { marcarConectado, marcarDesconectado, registrarActividad, registrarLatido, revisarAusencias, obtenerPresencia } from './presencia';
+import {
+  abrirSesion,
+  suspenderSesion,
+  descartarSesion,
+  guardarEvento,
+  tieneSesion,
+  listarSesionesSuspendidas,
+  SolicitudReanudacion
+} from './sesiones';
+import { suscribir, desuscribir, estaSuscrito, restablecerSuscripciones } from './suscripciones';
+import { requiereConfirmacion, esperarConfirmacion, confirmarEntrega, reenviarPendientes, descartarEntregas } from './entregasConfirmadas';
+import { comprobarLimite } from './limitador';
+import { cargarCredencialesTLS } from './certificados';
+import { codificarMsgpackDesdeJSON, decodificarMsgpack } from './msgpack';
 
-// Almacena las conexiones activas para poder enviar mensajes a dispositivos específicos
-const conexiones: Map<string, WebSocket> = new Map();
+/**
+ * Conexión de un dispositivo vista desde fuera de su transporte: un socket WebSocket
+ * o un canal SSE con mensajes por POST (sse.ts)
+ */
+export interface Conexion {
+  // Indica si aún pueden enviarse mensajes por ella
+  estaAbierta(): boolean;
+  // Envía un mensaje ya serializado
+  enviar(mensajeJSON: string): void;
+  // Cierra la conexión haciendo llegar al dispositivo el código y el motivo
+  cerrar(codigo: number, motivo: string): void;
+  // Envía un latido; devuelve false, tras cortar la conexión, si el anterior quedó sin respuesta
+  latir(): boolean;
+}
+
+/**
+ * Entrada de una conexión atendida con atenderConexion, para que su transporte le entregue lo que recibe
+ */
+export interface ReceptorConexion {
+  // Procesa un mensaje recibido: texto JSON o, en binario, MessagePack
+  recibir(mensaje: string | Buffer): void;
+  // Avisa de que la conexión se cerró
+  cerrada(codigo: number, motivo: string): void;
+  // ID del dispositivo, o null mientras no se haya autenticado
+  dispositivo(): string | null;
+}
+
+// Conexiones autenticadas, por ID de dispositivo, para poder enviar mensajes a dispositivos específicos
+const conexiones: Map<string, Conexion> = new Map();
 
 // Servidor WebSocket
 let servidor: WebSocketServer | null = null;
 
+// Servidor HTTP (o HTTPS en modo seguro) sobre el que escucha el WebSocket
+let servidorHttp: ServidorHttp | ServidorHttps | null = null;
+
+// Huella SHA-256 del certificado en uso (null en modo no seguro)
+let huellaCertificado: string | null = null;
+
+// Latido pendiente de respuesta por socket: instante en que se envió el ping
+const latidosPendientes: WeakMap<WebSocket, number> = new WeakMap();
+
+// Temporizador de la ronda de latidos
+let temporizadorLatidos: NodeJS.Timeout | null = null;
+
 /**
  * Inicia el servidor WebSocket en el puerto especificado
  * @param puerto Puerto donde escuchará el servidor WebSocket
+ * @param alPeticionHttp Atiende las peticiones HTTP que no son de WebSocket (sin él, se responde 426)
  * @returns Instancia del servidor WebSocket
  */
-export async function iniciarServidorWebSocket(puerto: number): Promise<WebSocketServer> {
+export async function iniciarServidorWebSocket(puerto: number, alPeticionHttp: RequestListener = exigirWebSocket): Promise<WebSocketServer> {
+  const { tls, limites, codificacion } = getConfig();
+  
+  // En modo seguro se necesitan el certificado y la llave antes de escuchar
+  const credenciales = tls.habilitado ? await cargarCredencialesTLS(tls.certificado, tls.llave) : null;
+  huellaCertificado = credenciales?.huella ?? null;
+  
   return new Promise((resolve, reject) => {
     try {
-      // Crear instancia del servidor WebSocket
-      servidor = new WebSocketServer({ port: puerto });
+      // Crear instancia del servidor WebSocket (los mensajes demasiado grandes cierran la conexión con 1009)
+      // sobre el servidor HTTP(S), que le reenvía sus eventos 'listening' y 'error'.
+      // La compresión y el subprotocolo se negocian con cada cliente en el handshake
+      servidorHttp = credenciales
+        ? crearServidorHttps({ cert: credenciales.certificado, key: credenciales.llave }, alPeticionHttp)
+        : crearServidorHttp(alPeticionHttp);
+      servidor = new WebSocketServer({
+        server: servidorHttp,
+        maxPayload: limites.tamanoMaximoMensaje,
+        perMessageDeflate: codificacion.deflate ? { threshold: codificacion.umbralDeflate } : false,
+        handleProtocols: elegirSubprotocolo
+      });
       
       // Configurar eventos del servidor
       configurarEventosServidor(servidor);
       
       // Resolver la promesa cuando el servidor esté escuchando
       servidor.on('listening', () => {
-        console.log(`Servidor WebSocket iniciado en puerto ${puerto}`);
+        console.log(`Servidor WebSocket iniciado en puerto ${puerto} (${credenciales ? 'wss' : 'ws'})`);
+        iniciarLatidos();
         resolve(servidor);
       });
       
@@ -41,12 +147,22 @@ export async function iniciarServidorWebSocket(puerto: number): Promise<WebSocke
         reject(error);
       });
       
+      servidorHttp.listen(puerto);
+      
     } catch (error) {
       reject(error);
     }
   });
 }
 
+/**
+ * Respuesta a las peticiones HTTP cuando no hay otro manejador: el puerto solo habla WebSocket
+ */
+function exigirWebSocket(_peticion: IncomingMessage, respuesta: ServerResponse): void {
+  respuesta.writeHead(426, { 'Content-Type': 'text/plain; charset=utf-8' });
+  respuesta.end('Upgrade Required');
+}
+
 /**
  * Configura los eventos del servidor WebSocket
  * @param servidor Instancia del servidor WebSocket
@@ -56,15 +172,13 @@ function configurarEventosServidor(servidor: WebSocketServer): void {
   servidor.on('connection', (socket, request) => {
     // Obtener IP del cliente (útil para logs)
     const ip = request.socket.remoteAddress || 'desconocida';
-    console.log(`Nueva conexión desde ${ip}`);
+    const compresion = socket.extensions.includes('permessage-deflate') ? ', deflate' : '';
+    console.log(`Nueva conexión desde ${ip} (${socket.protocol || Subprotocolos.JSON}${compresion})`);
     
-    // Generar ID temporal para la conexión hasta que se identifique
+    // Identificador para logs mientras el dispositivo no se autentique
     const conexionId = `temp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
-    // Almacenar la conexión con ID temporal
-    conexiones.set(conexionId, socket);
-    
-    // Configurar eventos del socket
+    // Configurar eventos del socket (la conexión solo se registra tras autenticarse)
     configurarEventosSocket(socket, conexionId, ip);
   });
   
@@ -93,130 +207,793 @@ function configurarEventosServidor(servidor: WebSocketServer): void {
 }
 
 /**
- * Configura los eventos para un socket específico
+ * Elige el subprotocolo de una conexión entre los que ofrece el cliente: MessagePack si lo ofrece y está permitido,
+ * y si no JSON. Sin subprotocolo (false) la conexión también usa JSON.
+ * @param ofrecidos Subprotocolos de la cabecera Sec-WebSocket-Protocol
+ */
+function elegirSubprotocolo(ofrecidos: Set<string>): string | false {
+  if (getConfig().codificacion.msgpack && ofrecidos.has(Subprotocolos.MSGPACK)) {
+    return Subprotocolos.MSGPACK;
+  }
+  
+  return ofrecidos.has(Subprotocolos.JSON) ? Subprotocolos.JSON : false;
+}
+
+/**
+ * Configura los eventos de un socket WebSocket y lo entrega, como Conexion, a atenderConexion
  * @param socket Socket WebSocket
  * @param conexionId Identificador temporal de la conexión
  * @param ip Dirección IP del cliente
  */
 function configurarEventosSocket(socket: WebSocket, conexionId: string, ip: string): void {
+  const binario = socket.protocol === Subprotocolos.MSGPACK;
+  const receptor = atenderConexion(adaptarSocket(socket, binario), conexionId, ip);
+  
+  // Evento de mensaje recibido (sin fragmentar: con binaryType 'nodebuffer' llega siempre un Buffer)
+  socket.on('message', (mensaje, esBinario) => {
+    receptor.recibir(binario && esBinario ? mensaje as Buffer : mensaje.toString());
+  });
+  
+  // Evento de cierre de conexión
+  socket.on('close', (codigo, razon) => receptor.cerrada(codigo, razon.toString()));
+  
+  // Respuesta a un latido: el socket sigue vivo
+  socket.on('pong', () => {
+    const enviadoEn = latidosPendientes.get(socket);
+    const dispositivoId = receptor.dispositivo();
+    latidosPendientes.delete(socket);
+    
+    if (dispositivoId && enviadoEn !== undefined) {
+      registrarLatido(dispositivoId, Date.now() - enviadoEn);
+    }
+  });
+  
+  // Evento de error en la conexión
+  socket.on('error', (error) => {
+    const dispositivoId = receptor.dispositivo() || conexionId;
+    console.error(`Error en conexión ${dispositivoId}:`, error.message);
+    
+    // Emitir evento de error
+    const eventoError = crearEventoBase('microservidor:errorConexion', {
+      error: error.message,
+      dispositivoId,
+      fecha: new Date().toISOString()
+    });
+    
+    global.eventBus.emit('microservidor:errorConexion', eventoError);
+  });
+}
+
+/**
+ * Presenta un socket WebSocket como Conexion. Los latidos son ping/pong del protocolo WebSocket.
+ * @param socket Socket WebSocket
+ * @param binario Si el socket negoció MessagePack en lugar de JSON
+ */
+function adaptarSocket(socket: WebSocket, binario: boolean): Conexion {
+  return {
+    estaAbierta: () => socket.readyState === WebSocket.OPEN,
+    enviar: (mensajeJSON) => socket.send(binario ? codificarMsgpackDesdeJSON(mensajeJSON) : mensajeJSON),
+    cerrar: (codigo, motivo) => socket.close(codigo, motivo),
+    latir: () => {
+      // Sin pong desde la ronda anterior: la conexión está muerta y no puede cerrarse con un saludo
+      if (latidosPendientes.has(socket)) {
+        socket.terminate();
+        return false;
+      }
+      
+      if (socket.readyState === WebSocket.OPEN) {
+        latidosPendientes.set(socket, Date.now());
+        socket.ping();
+      }
+      return true;
+    }
+  };
+}
+
+/**
+ * Atiende una conexión nueva, sea cual sea su transporte.
+ * Envía un desafío al conectar y no acepta eventos hasta que el dispositivo lo resuelva;
+ * si no lo hace a tiempo o la prueba no es válida, se cierra la conexión.
+ * @param conexion Conexión recién abierta
+ * @param conexionId Identificador temporal de la conexión
+ * @param ip Dirección IP del cliente
+ * @returns Receptor al que el transporte entrega los mensajes y el cierre de la conexión
+ */
+export function atenderConexion(conexion: Conexion, conexionId: string, ip: string): ReceptorConexion {
   let dispositivoId: string | null = null;
+  let emparejando = false;
   
-  // Evento de mensaje recibido
-  socket.on('message', (mensaje) => {
+  // Desafío de autenticación de un solo uso para esta conexión
+  const nonce = randomBytes(32).toString('hex');
+  const tiempoMaximo = getConfig().seguridad.tiempoMaximoAutenticacion;
+  
+  const temporizadorAutenticacion = setTimeout(() => {
+    emitirEventoDispositivoNoAutorizado(conexionId, 'Tiempo de autenticación agotado');
+    conexion.cerrar(CodigosCierre.TIEMPO_AUTENTICACION_AGOTADO, 'Tiempo de autenticación agotado');
+  }, tiempoMaximo);
+  
+  enviarControl(conexion, { control: 'desafio', nonce, algoritmo: ALGORITMO_PRUEBA });
+  
+  const recibir = (mensaje: string | Buffer): void => {
     try {
-      // Intentar parsear el mensaje como JSON
-      const datos = JSON.parse(mensaje.toString());
+      // Intentar decodificar el mensaje
+      const datos: unknown = typeof mensaje === 'string' ? JSON.parse(mensaje) : decodificarMsgpack(mensaje);
+      
+      // Mientras se resuelve un emparejamiento no se atiende nada más
+      if (emparejando) {
+        return;
+      }
       
-      // Si el dispositivo aún no está identificado, intentar obtener su ID
-      if (!dispositivoId && datos.contexto?.dispositivoId) {
-        dispositivoId = datos.contexto.dispositivoId;
+      // Un dispositivo nuevo puede emparejarse en lugar de responder al desafío
+      if (!dispositivoId && esMensajeControl(datos) && datos.control === 'emparejar') {
+        emparejando = true;
+        clearTimeout(temporizadorAutenticacion);
         
-        // Actualizar el ID en el mapa de conexiones
-        conexiones.delete(conexionId);
-        conexiones.set(dispositivoId, socket);
+        emparejarConexion(conexion, datos, conexionId, ip).then((id) => {
+          dispositivoId = id;
+          emparejando = false;
+        }).catch((error) => {
+          emparejando = false;
+          console.error('Error al emparejar dispositivo:', error);
+          emitirEventoDispositivoNoAutorizado(conexionId, 'Error interno durante el emparejamiento');
+          conexion.cerrar(CodigosCierre.ERROR_INTERNO, 'Error interno durante el emparejamiento');
+        });
+        return;
+      }
+      
+      // Lo primero que debe llegar es la respuesta al desafío
+      if (!dispositivoId) {
+        dispositivoId = autenticarConexion(conexion, datos, nonce, ip);
         
-        // Emitir evento de conexión establecida
-        const eventoConexion = crearEventoBase('microservidor:conexionEstablecida', {
-          dispositivoId,
+        if (dispositivoId) {
+          clearTimeout(temporizadorAutenticacion);
+        }
+        return;
+      }
+      
+      registrarActividad(dispositivoId);
+      
+      if (esMensajeControl(datos)) {
+        if (respetaLimite(conexion, dispositivoId, datos)) {
+          atenderControl(conexion, dispositivoId, datos);
+        }
+        return;
+      }
+      
+      // Lo que no es control debe ser un evento con el sobre común; los que no lo son también cuentan para el límite
+      const resultado = EsquemaEvento.safeParse(datos);
+      
+      if (!respetaLimite(conexion, dispositivoId, resultado.success ? resultado.data : undefined)) {
+        return;
+      }
+      
+      if (!resultado.success) {
+        const problema = resultado.error.issues[0];
+        const eventoError = crearEventoBase('microservidor:errorConexion', {
+          error: `Evento rechazado: estructura inválida (${problema?.path.join('.')}: ${problema?.message})`,
           ip,
+          dispositivoId,
           fecha: new Date().toISOString()
         });
         
-        global.eventBus.emit('microservidor:conexionEstablecida', eventoConexion);
+        global.eventBus.emit('microservidor:errorConexion', eventoError);
+        enviarControl(conexion, { control: 'error', mensaje: `Evento inválido: ${problema?.path.join('.')}: ${problema?.message}` });
+        return;
+      }
+      
+      const evento: Evento = resultado.data;
+      
+      // Un dispositivo autenticado solo puede emitir eventos en su propio nombre
+      if (evento.contexto.dispositivoId !== dispositivoId) {
+        const eventoError = crearEventoBase('microservidor:errorConexion', {
+          error: `Evento rechazado: contexto.dispositivoId no coincide con el dispositivo autenticado`,
+          ip,
+          dispositivoId,
+          fecha: new Date().toISOString()
+        });
         
-        console.log(`Dispositivo identificado: ${dispositivoId}`);
+        global.eventBus.emit('microservidor:errorConexion', eventoError);
+        return;
       }
       
       // Emitir el evento entrante sin transformación
-      global.eventBus.emit('microservidor:eventoEntrante', datos);
+      global.eventBus.emit('microservidor:eventoEntrante', evento);
       
     } catch (error) {
       console.error('Error al procesar mensaje:', error);
       
       // Emitir evento de error en el procesamiento
       const eventoError = crearEventoBase('microservidor:errorConexion', {
-        error: 'Error al procesar mensaje JSON',
+        error: 'Error al procesar mensaje',
         ip,
         dispositivoId: dispositivoId || conexionId,
         fecha: new Date().toISOString()
       });
       
       global.eventBus.emit('microservidor:errorConexion', eventoError);
+      
+      // Sin autenticar no se tolera basura
+      if (!dispositivoId) {
+        conexion.cerrar(CodigosCierre.PROTOCOLO_INVALIDO, 'Mensaje ilegible durante la autenticación');
+      }
     }
-  });
+  };
   
-  // Evento de cierre de conexión
-  socket.on('close', () => {
+  const cerrada = (codigo: number, motivo: string): void => {
     console.log(`Conexión cerrada: ${dispositivoId || conexionId}`);
+    clearTimeout(temporizadorAutenticacion);
     
-    // Eliminar la conexión del mapa
-    if (dispositivoId) {
+    // Eliminar la conexión del mapa, salvo que ya la haya reemplazado una conexión nueva del mismo dispositivo
+    if (dispositivoId && conexiones.get(dispositivoId) === conexion) {
       conexiones.delete(dispositivoId);
-    } else {
-      conexiones.delete(conexionId);
+      marcarDesconectado(dispositivoId, motivo || `Conexión cerrada (código ${codigo})`);
+      
+      // Un dispositivo revocado no puede reanudar su sesión ni recibir lo pendiente
+      if (codigo === CodigosCierre.ACCESO_REVOCADO) {
+        descartarSesion(dispositivoId);
+        descartarEntregas(dispositivoId, 'Acceso revocado');
+      } else {
+        suspenderSesion(dispositivoId);
+      }
     }
-  });
+  };
   
-  // Evento de error en la conexión
-  socket.on('error', (error) => {
-    console.error(`Error en conexión ${dispositivoId || conexionId}:`, error.message);
+  return { recibir, cerrada, dispositivo: () => dispositivoId };
+}
+
+/**
+ * Procesa la respuesta al desafío y, si es válida, registra la conexión
+ * @param conexion Conexión que intenta autenticarse
+ * @param datos Mensaje recibido
+ * @param nonce Nonce enviado a esta conexión
+ * @param ip Dirección IP del cliente
+ * @returns ID del dispositivo autenticado, o null si se rechazó (la conexión queda cerrada)
+ */
+function autenticarConexion(conexion: Conexion, datos: unknown, nonce: string, ip: string): string | null {
+  const resultado = MensajeAutenticarSchema.safeParse(datos);
+  
+  if (!resultado.success) {
+    conexion.cerrar(CodigosCierre.PROTOCOLO_INVALIDO, 'Se esperaba el mensaje de autenticación');
+    return null;
+  }
+  
+  const { dispositivoId, prueba, sesion } = resultado.data;
+  const llaveVerificada = verificarPruebaDispositivo(dispositivoId, nonce, prueba);
+  
+  if (!llaveVerificada) {
+    conexion.cerrar(CodigosCierre.AUTENTICACION_FALLIDA, 'Autenticación fallida');
+    return null;
+  }
+  
+  registrarConexion(conexion, dispositivoId, ip, sesion);
+  
+  // Quien se autentica con la llave anterior aún no recibió la nueva
+  const dispositivo = buscarDispositivo(dispositivoId);
+  if (llaveVerificada === 'anterior' && dispositivo?.expiraEn) {
+    enviarControl(conexion, { control: 'llaveRotada', llave: dispositivo.llave, expiraEn: dispositivo.expiraEn });
+  }
+  
+  return dispositivoId;
+}
+
+/**
+ * Procesa una solicitud de emparejamiento: el corazon valida el código y da de alta el dispositivo.
+ * Si se acepta, se entrega la llave al dispositivo y la conexión queda autenticada.
+ * @param conexion Conexión del dispositivo nuevo
+ * @param datos Mensaje recibido
+ * @param conexionId Identificador temporal de la conexión
+ * @param ip Dirección IP del cliente
+ * @returns ID del dispositivo emparejado, o null si se rechazó (la conexión queda cerrada)
+ */
+async function emparejarConexion(conexion: Conexion, datos: unknown, conexionId: string, ip: string): Promise<string | null> {
+  const resultado = MensajeEmparejarSchema.safeParse(datos);
+  
+  if (!resultado.success) {
+    conexion.cerrar(CodigosCierre.PROTOCOLO_INVALIDO, 'Mensaje de emparejamiento inválido');
+    return null;
+  }
+  
+  const { dispositivoId, codigo } = resultado.data;
+  const resolucion = await solicitarEmparejamiento(conexionId, dispositivoId, codigo);
+  
+  if (!resolucion) {
+    emitirEventoDispositivoNoAutorizado(conexionId, 'Tiempo de emparejamiento agotado');
+    conexion.cerrar(CodigosCierre.TIEMPO_AUTENTICACION_AGOTADO, 'Tiempo de emparejamiento agotado');
+    return null;
+  }
+  
+  if (!resolucion.aceptado || !resolucion.llave) {
+    const motivo = resolucion.motivo ?? 'Emparejamiento rechazado';
+    emitirEventoDispositivoNoAutorizado(conexionId, motivo);
+    conexion.cerrar(CodigosCierre.EMPAREJAMIENTO_RECHAZADO, recortarMotivoCierre(motivo));
+    return null;
+  }
+  
+  // El alta también emite core:dispositivosCargados, pero la conexión necesita el rol del dispositivo ya
+  await cargarDispositivosDesdeArchivo();
+  
+  if (!conexion.estaAbierta()) {
+    return null;
+  }
+  
+  enviarControl(conexion, { control: 'emparejado', dispositivoId, llave: resolucion.llave });
+  registrarConexion(conexion, dispositivoId, ip);
+  return dispositivoId;
+}
+
+/**
+ * Atiende un mensaje de control de un dispositivo ya autenticado (suscripciones y confirmaciones de entrega)
+ * @param conexion Conexión del dispositivo
+ * @param dispositivoId ID del dispositivo
+ * @param datos Mensaje de control recibido
+ */
+function atenderControl(conexion: Conexion, dispositivoId: string, datos: { control: string }): void {
+  if (datos.control === 'suscribir') {
+    const resultado = MensajeSuscribirSchema.safeParse(datos);
     
-    // Emitir evento de error
-    const eventoError = crearEventoBase('microservidor:errorConexion', {
-      error: error.message,
-      dispositivoId: dispositivoId || conexionId,
-      fecha: new Date().toISOString()
+    if (!resultado.success) {
+      enviarControl(conexion, { control: 'error', mensaje: `Suscripción inválida: ${resultado.error.issues[0]?.message}` });
+      return;
+    }
+    
+    const rol = resolverRol(buscarDispositivo(dispositivoId)?.rol);
+    const { patrones, rechazados } = suscribir(dispositivoId, rol, resultado.data.patrones, resultado.data.reemplazar);
+    
+    rechazados.forEach(patron => emitirEventoAccesoDenegado(dispositivoId, rol, patron, 'suscribir'));
+    enviarControl(conexion, { control: 'suscripciones', patrones, rechazados });
+    return;
+  }
+  
+  if (datos.control === 'desuscribir') {
+    const resultado = MensajeDesuscribirSchema.safeParse(datos);
+    
+    if (!resultado.success) {
+      enviarControl(conexion, { control: 'error', mensaje: `Desuscripción inválida: ${resultado.error.issues[0]?.message}` });
+      return;
+    }
+    
+    enviarControl(conexion, { control: 'suscripciones', patrones: desuscribir(dispositivoId, resultado.data.patrones), rechazados: [] });
+    return;
+  }
+  
+  if (datos.control === 'confirmar') {
+    const resultado = MensajeConfirmarSchema.safeParse(datos);
+    
+    if (!resultado.success) {
+      enviarControl(conexion, { control: 'error', mensaje: 'Confirmación inválida: falta el id del evento' });
+      return;
+    }
+    
+    confirmarEntrega(dispositivoId, resultado.data.id);
+    return;
+  }
+  
+  enviarControl(conexion, { control: 'error', mensaje: `Mensaje de control no soportado: ${datos.control}` });
+}
+
+/**
+ * Pide al corazon que resuelva un intento de emparejamiento
+ * @returns Resolución del corazon, o null si no responde a tiempo
+ */
+function solicitarEmparejamiento(
+  conexionId: string,
+  dispositivoId: string,
+  codigo: string
+): Promise<PayloadDe<'core:emparejamientoResuelto'> | null> {
+  return new Promise((resolve) => {
+    const finalizar = (resolucion: PayloadDe<'core:emparejamientoResuelto'> | null): void => {
+      clearTimeout(temporizador);
+      cancelar();
+      resolve(resolucion);
+    };
+    
+    const temporizador = setTimeout(() => finalizar(null), getConfig().seguridad.tiempoMaximoAutenticacion);
+    const cancelar = global.eventBus.on('core:emparejamientoResuelto', (evento) => {
+      if (evento.payload.conexionId === conexionId) {
+        finalizar(evento.payload);
+      }
     });
     
-    global.eventBus.emit('microservidor:errorConexion', eventoError);
+    global.eventBus.emit('core:solicitarEmparejamiento', crearEventoBase('core:solicitarEmparejamiento', {
+      conexionId,
+      dispositivoId,
+      codigo
+    }, 8));
+  });
+}
+
+/**
+ * Registra una conexión ya autenticada, abre su sesión y se lo confirma al dispositivo.
+ * Si reanuda una sesión anterior, le reenvía los eventos que se perdió antes que cualquier evento en vivo.
+ * @param conexion Conexión autenticada
+ * @param dispositivoId ID del dispositivo
+ * @param ip Dirección IP del cliente
+ * @param reanudacion Sesión anterior que el dispositivo quiere reanudar
+ */
+function registrarConexion(conexion: Conexion, dispositivoId: string, ip: string, reanudacion?: SolicitudReanudacion): void {
+  // Un dispositivo tiene una sola conexión: la nueva reemplaza a la anterior
+  const anterior = conexiones.get(dispositivoId);
+  if (anterior && anterior !== conexion) {
+    anterior.cerrar(CodigosCierre.SESION_REEMPLAZADA, 'Sesión reemplazada por una nueva conexión');
+  }
+  
+  conexiones.set(dispositivoId, conexion);
+  marcarConectado(dispositivoId, ip);
+  
+  const sesion = abrirSesion(dispositivoId, reanudacion);
+  
+  if (!sesion?.reanudada) {
+    restablecerSuscripciones(dispositivoId);
+  }
+  
+  enviarControl(conexion, {
+    control: 'autenticado',
+    dispositivoId,
+    sesion: sesion ? {
+      token: sesion.token,
+      ventanaMs: getConfig().seguridad.ventanaReconexion,
+      reanudada: sesion.reanudada,
+      eventosPendientes: sesion.pendientes.length
+    } : undefined
+  });
+  
+  sesion?.pendientes.forEach(mensajeJSON => conexion.enviar(mensajeJSON));
+  reenviarPendientes(dispositivoId, sesion?.pendientes);
+  
+  // Emitir evento de conexión establecida
+  const eventoConexion = crearEventoBase('microservidor:conexionEstablecida', {
+    dispositivoId,
+    ip,
+    fecha: new Date().toISOString()
+  });
+  
+  global.eventBus.emit('microservidor:conexionEstablecida', eventoConexion);
+  
+  if (sesion?.reanudada) {
+    global.eventBus.emit('microservidor:sesionReanudada', crearEventoBase('microservidor:sesionReanudada', {
+      dispositivoId,
+      eventosReenviados: sesion.pendientes.length,
+      fecha: new Date().toISOString()
+    }));
+  }
+  
+  console.log(`Dispositivo autenticado: ${dispositivoId}`);
+}
+
+/**
+ * Envía un mensaje de control del protocolo a una conexión
+ * @param conexion Conexión destino
+ * @param mensaje Mensaje de control
+ */
+function enviarControl(conexion: Conexion, mensaje: MensajeControlSaliente): void {
+  if (conexion.estaAbierta()) {
+    conexion.enviar(JSON.stringify(mensaje));
+  }
+}
+
+/**
+ * Comprueba el ritmo de mensajes de un dispositivo. Si lo supera, descarta el mensaje y se lo avisa;
+ * si lo supera con demasiada frecuencia, cierra la conexión.
+ * Las confirmaciones de entrega no cuentan: responden a envíos del propio servidor y, si se descartaran,
+ * cada una provocaría un reenvío más hasta acabar desconectando al dispositivo.
+ * @param conexion Conexión del dispositivo
+ * @param dispositivoId ID del dispositivo
+ * @param mensaje Mensaje de control o evento recibido (undefined si no es ni lo uno ni lo otro)
+ * @returns true si el mensaje puede procesarse
+ */
+function respetaLimite(conexion: Conexion, dispositivoId: string, mensaje: { control: string } | Evento | undefined): boolean {
+  if (mensaje && 'control' in mensaje && mensaje.control === 'confirmar') {
+    return true;
+  }
+  
+  const tipo = mensaje && 'meta' in mensaje ? mensaje.meta.tipo : undefined;
+  const resultado = comprobarLimite(dispositivoId, tipo);
+  
+  if (resultado.permitido) {
+    return true;
+  }
+  
+  if (resultado.desconectar) {
+    // Los mensajes que siguen llegando mientras se cierra no vuelven a notificarse
+    if (cerrarConexionDispositivo(dispositivoId, CodigosCierre.LIMITE_EXCEDIDO, 'Límite de mensajes superado repetidamente')) {
+      global.eventBus.emit('microservidor:limiteExcedido', crearEventoBase('microservidor:limiteExcedido', {
+        dispositivoId,
+        tipoEvento: tipo,
+        fecha: new Date().toISOString()
+      }, 7));
+    }
+    return false;
+  }
+  
+  enviarControl(conexion, {
+    control: 'limitado',
+    mensaje: 'Demasiados mensajes; mensaje descartado',
+    reintentarEnMs: resultado.reintentarEnMs
+  });
+  return false;
+}
+
+/**
+ * Si el tipo de un evento requiere confirmación, lo deja pendiente para reenviarlo hasta que el dispositivo la envíe
+ * @param dispositivoId ID del dispositivo destinatario
+ * @param mensaje Evento enviado
+ * @param mensajeJSON Evento serializado
+ */
+function vigilarEntrega(dispositivoId: string, mensaje: MensajeSaliente, mensajeJSON: string): void {
+  if (!('meta' in mensaje)) {
+    return;
+  }
+  
+  const { id, tipo } = mensaje.meta;
+  
+  if (requiereConfirmacion(tipo)) {
+    esperarConfirmacion(dispositivoId, id, tipo, mensajeJSON, json => enviarAConexion(dispositivoId, json));
+  }
+}
+
+/**
+ * Envía un mensaje ya serializado a la conexión actual de un dispositivo
+ * @returns true si el dispositivo estaba conectado
+ */
+function enviarAConexion(dispositivoId: string, mensajeJSON: string): boolean {
+  const conexion = conexiones.get(dispositivoId);
+  
+  if (!conexion || !conexion.estaAbierta()) {
+    return false;
+  }
+  
+  conexion.enviar(mensajeJSON);
+  return true;
+}
+
+/**
+ * Programa la ronda periódica de latidos.
+ * En cada ronda se envía un latido a cada conexión (y se termina la que no respondió al anterior)
+ * y se cierra por inactividad la que lleva más de `tiempoMaximoInactivo` sin enviar mensajes.
+ */
+function iniciarLatidos(): void {
+  const { intervaloLatido } = getConfig().seguridad;
+  
+  if (temporizadorLatidos) {
+    clearInterval(temporizadorLatidos);
+  }
+  
+  temporizadorLatidos = setInterval(revisarLatidos, intervaloLatido);
+  temporizadorLatidos.unref();
+}
+
+/**
+ * Ronda de latidos e inactividad sobre las conexiones autenticadas
+ */
+function revisarLatidos(): void {
+  const { tiempoMaximoInactivo, tiempoAusente } = getConfig().seguridad;
+  const ahora = Date.now();
+  
+  conexiones.forEach((conexion, dispositivoId) => {
+    // Sin respuesta al latido anterior: el transporte ya cortó la conexión
+    if (!conexion.latir()) {
+      console.warn(`Sin respuesta al latido de ${dispositivoId}; se termina la conexión`);
+      conexiones.delete(dispositivoId);
+      marcarDesconectado(dispositivoId, 'Sin respuesta al latido');
+      suspenderSesion(dispositivoId);
+      return;
+    }
+    
+    const ultimaActividad = obtenerPresencia(dispositivoId)?.ultimaActividad;
+    if (tiempoMaximoInactivo > 0 && ultimaActividad && ahora - Date.parse(ultimaActividad) > tiempoMaximoInactivo) {
+      cerrarConexionDispositivo(dispositivoId, CodigosCierre.INACTIVIDAD, 'Tiempo máximo de inactividad superado');
+    }
+  });
+  
+  revisarAusencias(tiempoAusente);
+}
+
+/**
+ * Recorta un motivo de cierre al máximo de 123 bytes que admite el protocolo WebSocket
+ * @param motivo Motivo legible
+ */
+function recortarMotivoCierre(motivo: string): string {
+  let razon = motivo;
+  
+  while (Buffer.byteLength(razon) > 123) {
+    razon = razon.slice(0, -1);
+  }
+  
+  return razon;
+}
+
+/**
+ * Emite un evento cuando una conexión no consigue autenticarse a tiempo
+ * @param conexionId Identificador temporal de la conexión
+ * @param motivo Razón del rechazo
+ */
+function emitirEventoDispositivoNoAutorizado(conexionId: string, motivo: string): void {
+  const evento = crearEventoBase('microservidor:dispositivoNoAutorizado', {
+    dispositivoId: conexionId,
+    motivo,
+    fecha: new Date().toISOString()
   });
+  
+  global.eventBus.emit('microservidor:dispositivoNoAutorizado', evento);
+}
+
+/**
+ * Comprueba que el rol de un dispositivo pueda recibir un mensaje.
+ * Los mensajes de control no son eventos y no están sujetos a la política.
+ * Si se deniega, emite `core:accesoDenegado` para auditoría.
+ * @param dispositivoId ID del dispositivo destinatario
+ * @param mensaje Mensaje a enviar
+ * @returns true si puede recibirlo
+ */
+function puedeRecibir(dispositivoId: string, mensaje: MensajeSaliente): boolean {
+  if (!('meta' in mensaje)) {
+    return true;
+  }
+
+  const { id, tipo } = mensaje.meta;
+  const rol = resolverRol(buscarDispositivo(dispositivoId)?.rol);
+
+  if (estaAutorizado(rol, tipo, 'recibir')) {
+    return true;
+  }
+
+  emitirEventoAccesoDenegado(dispositivoId, rol, tipo, 'recibir', id);
+  return false;
+}
+
+/**
+ * Emite `core:accesoDenegado` para auditoría
+ * @param dispositivoId ID del dispositivo
+ * @param rol Rol efectivo del dispositivo
+ * @param tipoEvento Tipo del evento (o patrón, al suscribir)
+ * @param direccion "recibir" o "suscribir"
+ * @param eventoOriginalId ID del evento no entregado, si lo hay
+ */
+function emitirEventoAccesoDenegado(
+  dispositivoId: string,
+  rol: string,
+  tipoEvento: string,
+  direccion: 'recibir' | 'suscribir',
+  eventoOriginalId?: string
+): void {
+  const evento = crearEventoBase('core:accesoDenegado', {
+    dispositivoId,
+    rol,
+    tipoEvento,
+    direccion,
+    eventoOriginalId,
+    componente: 'microservidor'
+  }, 8);
+
+  global.eventBus.emit('core:accesoDenegado', evento);
 }
 
 /**
  * Cierra el servidor WebSocket
  */
 export function cerrarServidorWebSocket(): void {
+  if (temporizadorLatidos) {
+    clearInterval(temporizadorLatidos);
+    temporizadorLatidos = null;
+  }
+  
   if (servidor) {
     servidor.close();
     servidor = null;
     conexiones.clear();
     console.log('Servidor WebSocket cerrado');
   }
+  
+  if (servidorHttp) {
+    servidorHttp.close();
+    servidorHttp = null;
+  }
+}
+
+/**
+ * Devuelve la huella SHA-256 del certificado del servidor, para que los dispositivos la fijen
+ * @returns La huella ("AB:CD:..."), o null si el servidor no está en modo seguro
+ */
+export function obtenerHuellaCertificado(): string | null {
+  return huellaCertificado;
 }
 
 /**
- * Envía un mensaje a un dispositivo específico
+ * Cierra la conexión de un dispositivo con un código y un motivo
+ * @param dispositivoId ID del dispositivo
+ * @param codigo Código de cierre (ver CodigosCierre)
+ * @param motivo Motivo legible que recibe el dispositivo
+ * @returns true si el dispositivo estaba conectado
+ */
+export function cerrarConexionDispositivo(dispositivoId: string, codigo: number, motivo: string): boolean {
+  const conexion = conexiones.get(dispositivoId);
+  
+  if (!conexion || !conexion.estaAbierta()) {
+    return false;
+  }
+  
+  console.log(`Cerrando conexión de ${dispositivoId}: ${motivo}`);
+  conexion.cerrar(codigo, recortarMotivoCierre(motivo));
+  return true;
+}
+
+/**
+ * Entrega a un dispositivo conectado la llave que reemplaza a la suya
+ * @param dispositivoId ID del dispositivo
+ * @param llave Llave nueva
+ * @param expiraEn Caducidad de la llave nueva
+ * @returns true si el dispositivo estaba conectado
+ */
+export function enviarLlaveRotada(dispositivoId: string, llave: string, expiraEn: string): boolean {
+  const conexion = conexiones.get(dispositivoId);
+  
+  if (!conexion || !conexion.estaAbierta()) {
+    return false;
+  }
+  
+  enviarControl(conexion, { control: 'llaveRotada', llave, expiraEn });
+  return true;
+}
+
+/**
+ * Envía un mensaje a un dispositivo específico.
+ * Si está desconectado pero su sesión sigue viva, el mensaje se guarda para reenviárselo al reanudarla.
  * @param dispositivoId ID del dispositivo destinatario
  * @param mensaje Mensaje a enviar (será convertido a JSON)
- * @returns true si el mensaje fue enviado, false si no se encontró el dispositivo
+ * @returns true si el mensaje fue enviado, false si no se encontró el dispositivo o su rol no puede recibirlo
  */
-export function enviarMensajeADispositivo(dispositivoId: string, mensaje: any): boolean {
+export function enviarMensajeADispositivo(dispositivoId: string, mensaje: MensajeSaliente): boolean {
   const conexion = conexiones.get(dispositivoId);
+  const abierta = conexion !== undefined && conexion.estaAbierta();
   
-  if (conexion && conexion.readyState === WebSocket.OPEN) {
-    conexion.send(JSON.stringify(mensaje));
-    return true;
+  if (!(abierta || tieneSesion(dispositivoId)) || !puedeRecibir(dispositivoId, mensaje)) {
+    return false;
   }
   
-  return false;
+  const mensajeJSON = JSON.stringify(mensaje);
+  guardarEvento(dispositivoId, mensaje, mensajeJSON, abierta);
+  vigilarEntrega(dispositivoId, mensaje, mensajeJSON);
+  
+  if (abierta) {
+    conexion.enviar(mensajeJSON);
+  }
+  
+  return abierta;
 }
 
 /**
- * Envía un mensaje a todos los dispositivos conectados
+ * Envía un mensaje a todos los dispositivos conectados que estén suscritos a su tipo
  * @param mensaje Mensaje a enviar (será convertido a JSON)
- * @returns Número de dispositivos a los que se envió el mensaje
+ * @param excluirDispositivoId ID de un dispositivo que no debe recibirlo (normalmente el emisor)
+ * @returns Número de dispositivos a los que se envió el mensaje (se omiten los no suscritos y los que no pueden recibirlo por su rol)
  */
-export function enviarMensajeATodos(mensaje: any): number {
+export function enviarMensajeATodos(mensaje: MensajeSaliente, excluirDispositivoId?: string): number {
   let enviados = 0;
   const mensajeJSON = JSON.stringify(mensaje);
+  const tipo = 'meta' in mensaje ? mensaje.meta.tipo : undefined;
+  const suscrito = (id: string): boolean => tipo === undefined || estaSuscrito(id, tipo);
   
-  conexiones.forEach((conexion) => {
-    if (conexion.readyState === WebSocket.OPEN) {
-      conexion.send(mensajeJSON);
+  conexiones.forEach((conexion, id) => {
+    if (id === excluirDispositivoId || !suscrito(id)) {
+      return;
+    }
+    
+    if (conexion.estaAbierta() && puedeRecibir(id, mensaje)) {
+      guardarEvento(id, mensaje, mensajeJSON, true);
+      vigilarEntrega(id, mensaje, mensajeJSON);
+      conexion.enviar(mensajeJSON);
       enviados++;
     }
   });
   
+  // Los desconectados que aún pueden reanudar su sesión lo recibirán al volver
+  listarSesionesSuspendidas().forEach((id) => {
+    if (id !== excluirDispositivoId && !conexiones.has(id) && suscrito(id) && puedeRecibir(id, mensaje)) {
+      guardarEvento(id, mensaje, mensajeJSON, false);
+      vigilarEntrega(id, mensaje, mensajeJSON);
+    }
+  });
+  
   return enviados;
 }
 
@@ -0,0 +1,47 @@
+/**
+ * helpers.ts
+ *
+ * Funciones utilitarias del microservidor: generación de eventos estándar y formateo de fechas.
+ * No depende de ningún otro componente del microservidor.
+ */
+
+import { format } from 'date-fns';
+import { versionActual } from '../../core/versionesEventos';
+import type { TipoEvento, PayloadDe, EventoDe } from '../../core/catalogoEventos';
+
+/**
+ * Crea un evento base con la estructura estándar del sistema
+ * @param tipo Tipo del evento registrado en el catálogo (ej: "microservidor:listo")
+ * @param payload Datos específicos del evento, según el esquema del catálogo
+ * @param prioridad Nivel de prioridad del evento (default: 5)
+ * @returns Objeto Evento con origen y dispositivo 'microservidor'
+ */
+export function crearEventoBase<K extends TipoEvento>(
+  tipo: K,
+  payload: PayloadDe<K>,
+  prioridad: number = 5
+): EventoDe<K> {
+  return {
+    meta: {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      tipo,
+      origen: 'microservidor',
+      prioridad,
+      versionEsquema: versionActual(tipo)
+    },
+    payload,
+    contexto: {
+      dispositivoId: 'microservidor'
+    }
+  };
+}
+
+/**
+ * Formatea una fecha para logs legibles
+ * @param fecha Fecha a formatear
+ * @returns Fecha en formato "yyyy-MM-dd HH:mm:ss"
+ */
+export function formatearFecha(fecha: Date): string {
+  return format(fecha, 'yyyy-MM-dd HH:mm:ss');
+}
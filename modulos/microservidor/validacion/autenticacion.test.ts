@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { randomBytes } from 'crypto';
+import { eventBus } from '../../core/eventBus';
+import { cargarListaAutorizada, calcularPrueba, verificarPruebaDispositivo } from './autenticacion';
+
+const HORA = 3600000;
+const dentroDe = (ms: number) => new Date(Date.now() + ms).toISOString();
+
+describe('autenticacion', () => {
+  let nonce: string;
+
+  beforeEach(() => {
+    nonce = randomBytes(32).toString('hex');
+  });
+
+  it('acepta la llave vigente y, durante el periodo de gracia, la anterior', () => {
+    cargarListaAutorizada([
+      { id: 'terminal-01', llave: 'llave-nueva', activo: true, expiraEn: dentroDe(90 * 24 * HORA), llaveAnterior: 'llave-vieja', llaveAnteriorExpiraEn: dentroDe(HORA) }
+    ]);
+
+    expect(verificarPruebaDispositivo('terminal-01', nonce, calcularPrueba('llave-nueva', nonce))).toBe('actual');
+    expect(verificarPruebaDispositivo('terminal-01', nonce, calcularPrueba('llave-vieja', nonce))).toBe('anterior');
+  });
+
+  it('rechaza la llave anterior cuando termina el periodo de gracia', () => {
+    const rechazos = vi.fn();
+    const cancelar = eventBus.on('microservidor:dispositivoNoAutorizado', rechazos);
+    cargarListaAutorizada([
+      { id: 'terminal-01', llave: 'llave-nueva', activo: true, llaveAnterior: 'llave-vieja', llaveAnteriorExpiraEn: dentroDe(-1) }
+    ]);
+
+    expect(verificarPruebaDispositivo('terminal-01', nonce, calcularPrueba('llave-vieja', nonce))).toBeNull();
+    cancelar();
+
+    expect(rechazos).toHaveBeenCalledWith(expect.objectContaining({
+      payload: expect.objectContaining({ dispositivoId: 'terminal-01', motivo: 'Prueba de llave incorrecta' })
+    }));
+  });
+
+  it('rechaza cualquier llave de un dispositivo cuya llave vigente caducó', () => {
+    cargarListaAutorizada([
+      { id: 'terminal-01', llave: 'llave-nueva', activo: true, expiraEn: dentroDe(-1), llaveAnterior: 'llave-vieja', llaveAnteriorExpiraEn: dentroDe(HORA) }
+    ]);
+
+    expect(verificarPruebaDispositivo('terminal-01', nonce, calcularPrueba('llave-nueva', nonce))).toBeNull();
+    expect(verificarPruebaDispositivo('terminal-01', nonce, calcularPrueba('llave-vieja', nonce))).toBeNull();
+  });
+
+  it('rechaza una prueba calculada para otro nonce', () => {
+    cargarListaAutorizada([{ id: 'terminal-01', llave: 'llave-01', activo: true }]);
+
+    expect(verificarPruebaDispositivo('terminal-01', nonce, calcularPrueba('llave-01', 'otro-nonce'))).toBeNull();
+  });
+});
@@ -3,30 +3,32 @@
  * 
  * Verifica que un dispositivo tenga permiso para emitir o recibir eventos en el sistema.
  * Utiliza una lista de dispositivos previamente cargada desde dispositivos.json.
+ * Los dispositivos prueban su identidad al conectar firmando un nonce del servidor con su llave,
+ * sin que la llave viaje por la red.
+ * dispositivos.json lo vigila el corazon (registroDispositivos.ts), que revoca a los dispositivos que dejan
+ * de estar autorizados; esta copia se vuelve a leer cuando el corazon emite `core:dispositivosCargados`.
  */
 
-import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHmac, timingSafeEqual } from 'crypto';
 import { crearEventoBase } from '../utils/helpers';
+import { ListaDispositivosSchema, DispositivoAutorizado } from '../../core/dispositivos';
 
-// Esquema de validación para un dispositivo
-export const DispositivoSchema = z.object({
-  id: z.string().min(1, 'El ID del dispositivo no puede estar vacío'),
-  llave: z.string().min(1, 'La llave del dispositivo no puede estar vacía'),
-  activo: z.boolean(),
-  rol: z.string().optional()
-});
-
-// Esquema para la lista completa de dispositivos
-const ListaDispositivosSchema = z.array(DispositivoSchema);
+/**
+ * Llave con la que se verificó la prueba de un dispositivo
+ */
+export type LlaveVerificada = 'actual' | 'anterior';
 
-// Tipo derivado del esquema
-export type Dispositivo = z.infer<typeof DispositivoSchema>;
+// Dispositivo tal como figura en dispositivos.json
+export type Dispositivo = DispositivoAutorizado;
 
 // Lista de dispositivos en memoria
 let dispositivosAutorizados: Dispositivo[] = [];
 
 /**
- * Valida si un dispositivo está autorizado para emitir o recibir eventos
+ * Valida si un dispositivo está autorizado presentando su llave directamente
+ * (p. ej. en las consultas HTTP de administración, que viajan por TLS o por la red local)
  * @param id Identificador del dispositivo
  * @param llave Llave de autorización del dispositivo
  * @returns true si el dispositivo está autorizado, false si no
@@ -46,7 +48,15 @@ export function esDispositivoAutorizado(id: string, llave: string): boolean {
     return false;
   }
   
-  if (dispositivo.llave !== llave) {
+  if (dispositivo.expiraEn && Date.parse(dispositivo.expiraEn) <= Date.now()) {
+    emitirEventoDispositivoNoAutorizado(id, 'Llave expirada');
+    return false;
+  }
+  
+  const esperada = Buffer.from(dispositivo.llave);
+  const recibida = Buffer.from(llave);
+  
+  if (esperada.length !== recibida.length || !timingSafeEqual(esperada, recibida)) {
     emitirEventoDispositivoNoAutorizado(id, 'Llave incorrecta');
     return false;
   }
@@ -54,6 +64,75 @@ export function esDispositivoAutorizado(id: string, llave: string): boolean {
   return true;
 }
 
+/**
+ * Calcula la prueba de identidad que un dispositivo debe enviar para un nonce
+ * @param llave Llave del dispositivo
+ * @param nonce Nonce emitido por el servidor
+ * @returns HMAC-SHA256 del nonce con la llave, en hexadecimal
+ */
+export function calcularPrueba(llave: string, nonce: string): string {
+  return createHmac('sha256', llave).update(nonce).digest('hex');
+}
+
+/**
+ * Verifica la prueba de identidad enviada por un dispositivo durante la autenticación.
+ * Tras una rotación, también se acepta la llave anterior hasta que termina su periodo de gracia.
+ * @param id Identificador del dispositivo
+ * @param nonce Nonce emitido por el servidor para esta conexión
+ * @param prueba HMAC recibido del dispositivo
+ * @returns Llave con la que coincide la prueba, o null si el dispositivo no existe, está inactivo,
+ * su llave caducó o la prueba no corresponde a ninguna llave aceptada
+ */
+export function verificarPruebaDispositivo(id: string, nonce: string, prueba: string): LlaveVerificada | null {
+  const dispositivo = dispositivosAutorizados.find(d => d.id === id);
+  const ahora = Date.now();
+  
+  if (!dispositivo) {
+    emitirEventoDispositivoNoAutorizado(id, 'Dispositivo no encontrado');
+    return null;
+  }
+  
+  if (!dispositivo.activo) {
+    emitirEventoDispositivoNoAutorizado(id, 'Dispositivo inactivo');
+    return null;
+  }
+  
+  if (dispositivo.expiraEn && Date.parse(dispositivo.expiraEn) <= ahora) {
+    emitirEventoDispositivoNoAutorizado(id, 'Llave expirada');
+    return null;
+  }
+  
+  if (coincidePrueba(dispositivo.llave, nonce, prueba)) {
+    return 'actual';
+  }
+  
+  const graciaVigente = dispositivo.llaveAnteriorExpiraEn !== undefined
+    && Date.parse(dispositivo.llaveAnteriorExpiraEn) > ahora;
+  
+  if (dispositivo.llaveAnterior && graciaVigente && coincidePrueba(dispositivo.llaveAnterior, nonce, prueba)) {
+    return 'anterior';
+  }
+  
+  emitirEventoDispositivoNoAutorizado(id, 'Prueba de llave incorrecta');
+  return null;
+}
+
+/**
+ * Carga la lista de dispositivos autorizados desde config/dispositivos.json.
+ * Si el archivo no es válido se conserva la lista anterior.
+ * @returns true si la carga fue exitosa, false si hubo errores
+ */
+export async function cargarDispositivosDesdeArchivo(): Promise<boolean> {
+  try {
+    const contenido = await fs.readFile(rutaDispositivos(), 'utf8');
+    
+    return cargarListaAutorizada(JSON.parse(contenido));
+  } catch (error) {
+    emitirEventoError('Error al leer dispositivos.json', error);
+    return false;
+  }
+}
+
 /**
  * Carga la lista de dispositivos autorizados
  * @param lista Array de dispositivos a cargar
@@ -138,6 +217,24 @@ function emitirEventoDispositivoNoAutorizado(id: string, motivo: string): void {
   console.warn(`Dispositivo no autorizado: ${id} - ${motivo}`);
 }
 
+/**
+ * Compara en tiempo constante la prueba recibida con la esperada para una llave,
+ * para no filtrar la prueba correcta por tiempos de respuesta
+ */
+function coincidePrueba(llave: string, nonce: string, prueba: string): boolean {
+  const esperada = Buffer.from(calcularPrueba(llave, nonce), 'hex');
+  const recibida = Buffer.from(prueba, 'hex');
+  
+  return esperada.length === recibida.length && timingSafeEqual(esperada, recibida);
+}
+
+/**
+ * Ruta del archivo de dispositivos
+ */
+function rutaDispositivos(): string {
+  return path.join(process.cwd(), 'config', 'dispositivos.json');
+}
+
 /**
  * Emite un evento de error
  * @param mensaje Mensaje descriptivo del error